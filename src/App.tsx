@@ -3,6 +3,8 @@ import HomePage from "./page/Home";
 import MainPage from "./page/Main";
 import RandomPage from "./page/Random";
 import CountPage from "./page/Count";
+import ScorePage from "./page/Score";
+import StatsPage from "./page/Stats";
 function App() {
   // const [count, setCount] = useState(0);
 
@@ -14,6 +16,8 @@ function App() {
         <Route path="/main" element={<MainPage />} />
         <Route path="/random" element={<RandomPage />} />
         <Route path="/count" element={<CountPage />} />
+        <Route path="/score" element={<ScorePage />} />
+        <Route path="/stats" element={<StatsPage />} />
       </Routes>
     </>
   );
@@ -0,0 +1,45 @@
+/**
+ * 한 구씩 입력하는 핀 수 키패드
+ * - 지금 서 있는 핀보다 많은 수는 누를 수 없음
+ * - 서 있는 핀을 다 쓰러뜨리는 버튼은 X(새 랙) 또는 /(스페어)로 표시
+ */
+export default function BallKeypad({
+  standing,
+  onPins,
+  onUndo,
+  canUndo,
+}: {
+  standing: number; // 0이면 입력할 공이 없음 (게임 끝)
+  onPins: (pins: number) => void;
+  onUndo: () => void;
+  canUndo: boolean;
+}) {
+  const label = (n: number) =>
+    n === standing ? (standing === 10 ? "X" : "/") : n === 0 ? "-" : String(n);
+
+  return (
+    <div className="grid grid-cols-6 gap-2">
+      {Array.from({ length: 11 }, (_, n) => (
+        <button
+          key={n}
+          disabled={standing === 0 || n > standing}
+          onClick={() => onPins(n)}
+          className={`rounded-xl border py-3 text-base font-semibold shadow-sm active:scale-[0.97] disabled:opacity-30 ${
+            n === standing
+              ? "border-fuchsia-300 bg-fuchsia-600 text-white"
+              : "border-purple-200 bg-white text-purple-700 hover:bg-purple-50"
+          }`}
+        >
+          {label(n)}
+        </button>
+      ))}
+      <button
+        disabled={!canUndo}
+        onClick={onUndo}
+        className="rounded-xl border border-gray-200 bg-white py-3 text-sm text-gray-600 shadow-sm hover:bg-gray-50 disabled:opacity-30"
+      >
+        ↶ 취소
+      </button>
+    </div>
+  );
+}
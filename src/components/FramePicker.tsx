@@ -0,0 +1,340 @@
+import { useEffect, useState } from "react";
+import {
+  framesToPretty,
+  parseFrameSymbol,
+  parseMarkedFrame,
+  type MarkedFrame,
+} from "../core/bowling";
+import {
+  ALL_PINS,
+  completePins,
+  hasPin,
+  isSplit,
+  leaveName,
+  pinCount,
+  pinsMismatch,
+  standingBefore,
+  togglePin,
+  type FramePins,
+  type PinMask,
+} from "../core/pins";
+import PinDiagram from "./PinDiagram";
+
+/**
+ * 프레임 픽커(모달) – 빠른 선택 + 직접 입력/키패드
+ * - index 9(10프)는 3구 빠른 버튼, 1~9프는 최대 2글자
+ * - withPins면 투구마다 남은 핀을 배치도에서 눌러 기록 (그 투구 핀 수와 스플릿 S는 자동으로 맞춤)
+ * - F(파울), S(스플릿) 표시는 글자 수(투구 수)에 세지 않음
+ */
+
+// 투구 수 (스플릿 표시 S는 다음 숫자에 붙음)
+const ballCount = (s: string) => s.replace(/S/g, "").length;
+
+const NO_BALLS: MarkedFrame = { frame: [], marks: [] };
+
+// 입력 중인 기호의 투구들 (끝나지 않은 프레임은 한 구 더 던졌다고 보고 읽은 뒤 뺌)
+function draftBalls(draft: string): MarkedFrame | null {
+  if (!draft) return NO_BALLS;
+  const whole = parseMarkedFrame(draft);
+  if (whole) return whole;
+  const more = parseMarkedFrame(draft + "-");
+  return (
+    more && { frame: more.frame.slice(0, -1), marks: more.marks.slice(0, -1) }
+  );
+}
+
+// k번째 투구를 던질 수 있는 프레임인지 (1~9프 스트라이크 뒤, 10프 오픈 뒤 3구는 없음)
+function ballAllowed(frame: number[], k: number, isTenth: boolean) {
+  if (k === 0) return true;
+  if (!isTenth) return k === 1 && frame[0] < 10;
+  return k === 1 || frame[0] === 10 || frame[0] + frame[1] === 10;
+}
+
+export default function FramePicker({
+  open,
+  index,
+  currentValue,
+  onSelect,
+  onClose,
+  withPins = false,
+  currentPins = null,
+}: {
+  open: boolean;
+  index: number | null;
+  currentValue: string;
+  onSelect: (symbol: string, pins: FramePins | null) => void;
+  onClose: () => void;
+  withPins?: boolean;
+  currentPins?: FramePins | null;
+}) {
+  const isTenth = index === 9;
+  const [draft, setDraft] = useState<string>("");
+  const [error, setError] = useState<string>("");
+  const [masks, setMasks] = useState<FramePins>([]); // 투구별 남은 핀
+  const [ball, setBall] = useState(0); // 배치도에서 고르는 투구
+
+  useEffect(() => {
+    if (open) {
+      setDraft((currentValue || "").toUpperCase());
+      setMasks(currentPins ?? []);
+      setBall(0);
+      setError("");
+    }
+  }, [open, currentValue, currentPins]);
+
+  // 배치도: 앞 투구 핀 수를 알고, 그 투구를 던질 수 있을 때만 고를 수 있음
+  const balls = draftBalls(draft) ?? NO_BALLS;
+  const beforeBall = (k: number) =>
+    k <= balls.frame.length && ballAllowed(balls.frame, k, isTenth)
+      ? standingBefore(balls.frame, masks, k)
+      : null;
+  const active = beforeBall(ball) !== null ? ball : 0;
+  const before = beforeBall(active) ?? ALL_PINS;
+  const current = masks[active] ?? null;
+
+  // 이 투구 뒤 남은 핀을 바꾸고 기호를 맞춤 (뒤 투구 마스크는 지움, 기호는 맞으면 그대로)
+  const setBallMask = (next: PinMask) => {
+    setMasks([...masks.slice(0, active), next]);
+    const fresh = pinCount(before) === 10;
+    const frame = [
+      ...balls.frame.slice(0, active),
+      pinCount(before) - pinCount(next),
+    ];
+    const marks = [
+      ...balls.marks.slice(0, active),
+      fresh && isSplit(next) ? ("split" as const) : null,
+    ];
+    // 다음 투구가 스페어였으면 남은 핀 수가 바뀌어도 스페어로 둠
+    const later = balls.frame.slice(active + 1);
+    const was = balls.frame[active];
+    if (later.length && was < pinCount(before))
+      if (was + later[0] === pinCount(before)) later[0] = pinCount(next);
+    const rest =
+      !isTenth && frame[0] === 10
+        ? ""
+        : framesToPretty(
+            [...frame, ...later],
+            [...marks, ...balls.marks.slice(active + 1)]
+          );
+    setDraft(rest && draftBalls(rest) ? rest : framesToPretty(frame, marks));
+  };
+
+  const tapPin = (pin: number) => {
+    if (!hasPin(before, pin)) return; // 이미 쓰러진 핀
+    setBallMask(togglePin(current ?? 0, pin));
+  };
+
+  const quickCommon = ["X", "9/", "8/", "7/", "9-", "81", "72", "--"];
+  const quickTenth = ["XXX", "XX9", "X9/", "X9-", "9/X", "9/9", "9-", "--"];
+  const list = isTenth ? quickTenth : quickCommon;
+
+  // 유효성 검사
+  const validate = (text: string) => {
+    const s = text.toUpperCase();
+    if (!s) return ""; // 빈 문자열은 입력 중 상태
+    if (!isTenth && ballCount(s) > 2)
+      return "1~9프는 최대 2구까지 입력할 수 있어요";
+    const parsed = parseFrameSymbol(s);
+    if (!parsed)
+      return "형식이 올바르지 않아요 (예: X, 9/, 9-, 81, --, F9, S7/, XXX, X9/)";
+    const bad = pinsMismatch(parsed, masks);
+    if (bad >= 0) return `${bad + 1}구 뒤 남은 핀과 핀 수가 달라요`;
+    // 추가 룰: 1~9프에서 'X' 단독은 허용, 3글자는 금지(위에서 걸림)
+    return "";
+  };
+
+  useEffect(() => {
+    setError(validate(draft));
+  }, [draft, masks]);
+
+  const appendChar = (ch: string) => {
+    let next = (draft + ch).toUpperCase();
+
+    // 길이 제한
+    const maxLen = isTenth ? 3 : 2;
+    if (ballCount(next) > maxLen) return;
+
+    // X 처리: 1~9프에서는 X 하나로 끝 (원하면 즉시 저장도 가능)
+    if (!isTenth && ballCount(next) >= 2 && next[0] === "X") {
+      // X 다음 추가는 막기
+      next = "X";
+    }
+
+    setDraft(next);
+  };
+
+  const backspace = () => setDraft((d) => d.slice(0, -1));
+  const clearAll = () => setDraft("");
+  const handleSave = () => {
+    const err = validate(draft);
+    if (!err && draft) {
+      const parsed = parseFrameSymbol(draft)!;
+      onSelect(
+        draft.toUpperCase(),
+        masks.some((m) => m !== null) ? completePins(parsed, masks) : null
+      );
+      onClose();
+    } else {
+      setError(err || "입력값이 비어 있어요");
+    }
+  };
+
+  return !open || index === null ? null : (
+    <div
+      className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/30 p-3"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md rounded-2xl bg-white shadow-xl p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-3 flex items-center justify-between">
+          <div className="font-semibold">프레임 선택 – {index + 1}프</div>
+          <button className="text-sm text-gray-500" onClick={onClose}>
+            닫기
+          </button>
+        </div>
+
+        {/* 빠른 선택 */}
+        <div className="grid grid-cols-4 gap-2 mb-3">
+          {list.map((s) => (
+            <button
+              key={s}
+              onClick={() => {
+                setDraft(s);
+                setError("");
+              }}
+              className="rounded-xl border px-3 py-2 text-sm hover:bg-purple-50"
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+
+        {/* 핀 기록 */}
+        {withPins && (
+          <div className="mb-3 rounded-xl border p-3">
+            <div className="mb-2 flex gap-1">
+              {Array.from({ length: isTenth ? 3 : 2 }, (_, k) => (
+                <button
+                  key={k}
+                  disabled={beforeBall(k) === null}
+                  onClick={() => setBall(k)}
+                  className={`rounded-lg border px-2 py-0.5 text-xs disabled:opacity-40 ${
+                    k === active
+                      ? "border-purple-600 bg-purple-50 text-purple-700"
+                      : ""
+                  }`}
+                >
+                  {k + 1}구
+                </button>
+              ))}
+            </div>
+            <div className="mb-2 flex items-center justify-between text-xs text-gray-500">
+              <span>
+                {active + 1}구 뒤 남은 핀 (선택)
+                {current !== null && current !== 0 && (
+                  <b className="ml-2 text-purple-700">{leaveName(current)}</b>
+                )}
+                {current !== null &&
+                  pinCount(before) === 10 &&
+                  isSplit(current) && (
+                    <span className="ml-2 rounded-full bg-red-50 px-2 text-red-500">
+                      스플릿
+                    </span>
+                  )}
+              </span>
+              <span className="flex gap-2">
+                <button
+                  className="underline"
+                  onClick={() => setBallMask(before)}
+                >
+                  모두 세우기
+                </button>
+                <button className="underline" onClick={() => setMasks([])}>
+                  기록 안 함
+                </button>
+              </span>
+            </div>
+            <PinDiagram standing={current ?? 0} onToggle={tapPin} />
+          </div>
+        )}
+
+        {/* 직접 입력 */}
+        <div className="rounded-xl border p-3">
+          <div className="mb-2 text-xs text-gray-500">
+            직접 입력 (예: X, 9/, 9-, 81, --, 10프 예: XXX, X9/, 9/X · F 파울, S
+            스플릿)
+          </div>
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value.toUpperCase())}
+            placeholder={
+              isTenth ? "예: XXX / X9/ / 9/X" : "예: X / 9/ / 81 / --"
+            }
+            className={`w-full rounded-lg border px-3 py-2 text-sm shadow-sm focus:ring-2 ${
+              error
+                ? "border-red-400 focus:ring-red-200"
+                : "border-gray-200 focus:ring-fuchsia-300"
+            }`}
+          />
+          {error && (
+            <div className="mt-1 text-[11px] text-red-500">{error}</div>
+          )}
+
+          {/* 모바일 키패드 */}
+          <div className="mt-3 grid grid-cols-5 gap-2">
+            {[
+              "X",
+              "9",
+              "8",
+              "7",
+              "6",
+              "5",
+              "4",
+              "3",
+              "2",
+              "1",
+              "0",
+              "-",
+              "/",
+              "F",
+              "S",
+            ].map((k) => (
+              <button
+                key={k}
+                onClick={() => appendChar(k)}
+                className="rounded-lg border px-3 py-2 text-sm hover:bg-purple-50"
+              >
+                {k}
+              </button>
+            ))}
+            <button
+              onClick={backspace}
+              className="col-span-2 rounded-lg border px-3 py-2 text-sm hover:bg-gray-50"
+            >
+              ⌫ 지우기
+            </button>
+            <button
+              onClick={clearAll}
+              className="col-span-2 rounded-lg border px-3 py-2 text-sm hover:bg-gray-50"
+            >
+              전체 삭제
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!!validate(draft) || !draft}
+              className={`col-span-1 rounded-lg px-3 py-2 text-sm text-white ${
+                !!validate(draft) || !draft
+                  ? "bg-gray-300"
+                  : "bg-fuchsia-600 hover:bg-fuchsia-700"
+              }`}
+            >
+              저장
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
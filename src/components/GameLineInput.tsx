@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { parseGameLine, type GameLine, type ParseMode } from "../core/bowling";
+
+/**
+ * 게임 한 줄 입력/내보내기 – "X 9/ 81 X X 7- 9/ X 8/ X9/"
+ * - 처음에는 지금 기록을 한 줄로 보여줌 (그대로 복사해서 다른 곳에 붙여넣기)
+ * - 붙여넣고 불러오기 → onImport, 문제가 있으면 그 글자를 빨갛게 표시
+ * - 엄격하게: 내보내는 표기 그대로만, 10프까지 / 기본은 너그럽게 (core/bowling)
+ */
+export default function GameLineInput({
+  value,
+  onImport,
+}: {
+  value: string;
+  onImport: (line: GameLine) => void;
+}) {
+  const [text, setText] = useState(value);
+  const [mode, setMode] = useState<ParseMode>("lenient");
+
+  useEffect(() => setText(value), [value]);
+
+  const line = parseGameLine(text, mode);
+  const issue = line.issues[0];
+  const canImport = !!text.trim() && !issue && text !== value;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && canImport && onImport(line)}
+          placeholder="예: X 9/ 81 X X 7- 9/ X 8/ X9/"
+          spellCheck={false}
+          className={`min-w-0 flex-1 rounded-lg border px-3 py-1.5 font-mono text-sm shadow-sm focus:ring-2 ${
+            issue
+              ? "border-red-400 focus:ring-red-200"
+              : "border-gray-200 focus:ring-fuchsia-300"
+          }`}
+        />
+        <label className="flex items-center gap-1 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={mode === "strict"}
+            onChange={(e) => setMode(e.target.checked ? "strict" : "lenient")}
+            className="h-3.5 w-3.5"
+          />
+          엄격하게
+        </label>
+        <button
+          onClick={() => onImport(line)}
+          disabled={!canImport}
+          className={`rounded-lg px-3 py-1.5 text-xs text-white ${
+            canImport ? "bg-fuchsia-600 hover:bg-fuchsia-700" : "bg-gray-300"
+          }`}
+        >
+          불러오기
+        </button>
+      </div>
+      {issue && (
+        <div className="text-[11px] text-red-500">
+          <div className="whitespace-pre font-mono text-gray-600">
+            {text.slice(0, issue.pos)}
+            <span className="rounded bg-red-100 text-red-600 underline">
+              {text.slice(issue.pos, issue.pos + issue.length) || " "}
+            </span>
+            {text.slice(issue.pos + issue.length)}
+          </div>
+          {issue.pos + 1}번째 글자
+          {issue.frame !== null && ` (${issue.frame + 1}프)`}: {issue.message}
+        </div>
+      )}
+      <p className="text-[11px] text-gray-400">
+        F = 파울(0핀), S = 스플릿 (새 랙 첫 구 숫자 앞, 예: S7/)
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,434 @@
+import { useState } from "react";
+import {
+  addGroup,
+  duplicateMembers,
+  groupNameError,
+  moveGroup,
+  moveMember,
+  parseGroupsCsv,
+  parseMemberList,
+  removeGroup,
+  removePreset,
+  renameGroup,
+  savePreset,
+  setGroupMembers,
+  type Group,
+  type GroupImportIssue,
+  type GroupPreset,
+} from "../core/groups";
+
+/**
+ * 그룹 편집 (랜덤 모드)
+ * - 그룹 추가/이름 변경/삭제/순서 변경
+ * - 이름 칩을 다른 그룹으로 드래그 (터치 환경: 칩 선택 → "여기로 이동")
+ * - CSV(이름, 그룹) 가져오기, 이름 붙인 프리셋 저장/불러오기
+ */
+export default function GroupEditor({
+  groups,
+  onChange,
+  presets,
+  onPresetsChange,
+}: {
+  groups: Group[];
+  onChange: (next: Group[]) => void;
+  presets: GroupPreset[];
+  onPresetsChange: (next: GroupPreset[]) => void;
+}) {
+  const [renaming, setRenaming] = useState<{
+    idx: number;
+    value: string;
+  } | null>(null);
+  const [textEdit, setTextEdit] = useState<{
+    idx: number;
+    value: string;
+  } | null>(null);
+  const [addDrafts, setAddDrafts] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<string | null>(null);
+  const [dragOver, setDragOver] = useState<number | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [csvText, setCsvText] = useState("");
+  const [importIssues, setImportIssues] = useState<GroupImportIssue[]>([]);
+  const [presetName, setPresetName] = useState("");
+  const [presetPick, setPresetPick] = useState("");
+
+  const duplicates = duplicateMembers(groups);
+  const renameError = renaming
+    ? groupNameError(groups, renaming.idx, renaming.value)
+    : null;
+
+  const commitRename = () => {
+    if (!renaming) return;
+    if (!renameError)
+      onChange(renameGroup(groups, renaming.idx, renaming.value));
+    setRenaming(null);
+  };
+
+  const handleRemove = (idx: number) => {
+    const g = groups[idx];
+    if (
+      g.members.length > 0 &&
+      !window.confirm(`${g.name} (${g.members.length}명)을 삭제할까요?`)
+    )
+      return;
+    setRenaming(null);
+    setTextEdit(null);
+    onChange(removeGroup(groups, idx));
+  };
+
+  const handleMove = (idx: number, delta: number) => {
+    setRenaming(null);
+    setTextEdit(null);
+    onChange(moveGroup(groups, idx, delta));
+  };
+
+  const handleAddMembers = (idx: number) => {
+    const key = groups[idx].name;
+    let next = groups;
+    for (const name of parseMemberList(addDrafts[key] ?? ""))
+      next = moveMember(next, name, idx);
+    onChange(next);
+    setAddDrafts((d) => ({ ...d, [key]: "" }));
+  };
+
+  const handleDrop = (idx: number, name: string) => {
+    setDragOver(null);
+    setSelected(null);
+    if (name) onChange(moveMember(groups, name, idx));
+  };
+
+  const handleImport = () => {
+    const { groups: imported, issues } = parseGroupsCsv(csvText);
+    setImportIssues(issues);
+    if (imported.length === 0) return;
+    if (
+      groups.some((g) => g.members.length > 0) &&
+      !window.confirm("현재 그룹을 가져온 그룹으로 바꿀까요?")
+    )
+      return;
+    onChange(imported);
+    if (issues.length === 0) {
+      setCsvText("");
+      setShowImport(false);
+    }
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    if (
+      presets.some((p) => p.name === name) &&
+      !window.confirm(`"${name}" 프리셋을 덮어쓸까요?`)
+    )
+      return;
+    onPresetsChange(savePreset(presets, name, groups));
+    setPresetPick(name);
+    setPresetName("");
+  };
+
+  const handleLoadPreset = () => {
+    const preset = presets.find((p) => p.name === presetPick);
+    if (!preset) return;
+    setRenaming(null);
+    setTextEdit(null);
+    onChange(preset.groups);
+  };
+
+  const handleDeletePreset = () => {
+    if (!presetPick || !window.confirm(`"${presetPick}" 프리셋을 삭제할까요?`))
+      return;
+    onPresetsChange(removePreset(presets, presetPick));
+    setPresetPick("");
+  };
+
+  return (
+    <section className="mb-8">
+      {/* 도구 모음 */}
+      <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+        <button
+          className="rounded-lg border bg-white px-3 py-1"
+          onClick={() => onChange(addGroup(groups))}
+        >
+          + 그룹 추가
+        </button>
+        <button
+          className="rounded-lg border bg-white px-3 py-1"
+          onClick={() => setShowImport((v) => !v)}
+        >
+          CSV 가져오기
+        </button>
+        <span className="mx-1 h-5 w-px bg-purple-100" />
+        <select
+          className="rounded-xl border px-2 py-1"
+          value={presetPick}
+          onChange={(e) => setPresetPick(e.target.value)}
+        >
+          <option value="">프리셋 선택</option>
+          {presets.map((p) => (
+            <option key={p.name} value={p.name}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <button
+          className="rounded-lg border bg-white px-3 py-1 disabled:opacity-40"
+          disabled={!presetPick}
+          onClick={handleLoadPreset}
+        >
+          불러오기
+        </button>
+        <button
+          className="rounded-lg border bg-white px-3 py-1 text-red-500 disabled:opacity-40"
+          disabled={!presetPick}
+          onClick={handleDeletePreset}
+        >
+          삭제
+        </button>
+        <input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSavePreset()}
+          placeholder="프리셋 이름 (예: 목요 정모)"
+          className="w-44 rounded-xl border px-3 py-1"
+        />
+        <button
+          className="rounded-lg border bg-white px-3 py-1 disabled:opacity-40"
+          disabled={!presetName.trim()}
+          onClick={handleSavePreset}
+        >
+          현재 그룹 저장
+        </button>
+      </div>
+
+      {showImport && (
+        <div className="mb-4 rounded-2xl bg-white p-4 text-sm shadow ring-1 ring-purple-100">
+          <div className="mb-2 font-medium">CSV 가져오기 (이름, 그룹)</div>
+          <textarea
+            className="h-32 w-full resize-none rounded-xl border px-3 py-2 text-sm shadow-sm"
+            value={csvText}
+            onChange={(e) => setCsvText(e.target.value)}
+            placeholder={`이름, 그룹\n홍길동, 1그룹\n김철수, 2그룹`}
+          />
+          <div className="mt-2 flex items-center gap-2">
+            <button
+              className="rounded-lg border px-3 py-1 disabled:opacity-40"
+              disabled={!csvText.trim()}
+              onClick={handleImport}
+            >
+              가져오기
+            </button>
+            <span className="text-xs text-gray-500">
+              엑셀에서 두 열을 복사해 붙여넣어도 됩니다. 현재 그룹을 대체해요.
+            </span>
+          </div>
+          {importIssues.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-amber-700">
+              {importIssues.map((issue, i) => (
+                <li key={i}>
+                  {issue.line}행: {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {duplicates.length > 0 && (
+        <p className="mb-3 text-xs text-amber-700">
+          여러 그룹에 들어간 이름: {duplicates.join(", ")}
+        </p>
+      )}
+
+      {/* 그룹 카드 */}
+      <div className="grid gap-4 md:grid-cols-3">
+        {groups.map((group, idx) => (
+          <div
+            key={group.name}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOver(idx);
+            }}
+            onDragLeave={() => setDragOver((d) => (d === idx ? null : d))}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(idx, e.dataTransfer.getData("text/plain"));
+            }}
+            className={`rounded-2xl bg-white p-4 shadow ring-1 ${
+              dragOver === idx ? "ring-2 ring-fuchsia-400" : "ring-purple-100"
+            }`}
+          >
+            <div className="mb-2 flex items-center justify-between gap-2">
+              {renaming?.idx === idx ? (
+                <input
+                  autoFocus
+                  value={renaming.value}
+                  onChange={(e) => setRenaming({ idx, value: e.target.value })}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setRenaming(null);
+                  }}
+                  className={`min-w-0 flex-1 rounded-lg border px-2 py-1 text-sm font-semibold ${
+                    renameError ? "border-red-400" : ""
+                  }`}
+                />
+              ) : (
+                <h3
+                  className="cursor-text font-semibold"
+                  title="클릭해서 이름 변경"
+                  onClick={() => setRenaming({ idx, value: group.name })}
+                >
+                  {group.name}
+                </h3>
+              )}
+              <div className="flex items-center gap-1 text-xs text-gray-400">
+                <span className="mr-1">{group.members.length}명</span>
+                <button
+                  className="rounded border px-1 disabled:opacity-30"
+                  disabled={idx === 0}
+                  onClick={() => handleMove(idx, -1)}
+                  title="앞으로"
+                >
+                  ←
+                </button>
+                <button
+                  className="rounded border px-1 disabled:opacity-30"
+                  disabled={idx === groups.length - 1}
+                  onClick={() => handleMove(idx, 1)}
+                  title="뒤로"
+                >
+                  →
+                </button>
+                <button
+                  className="rounded border px-1 text-red-400"
+                  onClick={() => handleRemove(idx)}
+                  title="그룹 삭제"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+            {renaming?.idx === idx && renameError && (
+              <p className="mb-2 text-xs text-red-500">{renameError}</p>
+            )}
+
+            {textEdit?.idx === idx ? (
+              <>
+                <textarea
+                  className="h-36 w-full resize-none rounded-xl border px-3 py-2 text-sm shadow-sm"
+                  value={textEdit.value}
+                  onChange={(e) => setTextEdit({ idx, value: e.target.value })}
+                  placeholder={`한 줄에 한 명씩 입력`}
+                />
+                <div className="mt-2 flex justify-end gap-2 text-xs">
+                  <button
+                    className="rounded-lg border px-3 py-1"
+                    onClick={() => setTextEdit(null)}
+                  >
+                    취소
+                  </button>
+                  <button
+                    className="rounded-lg border border-purple-300 px-3 py-1 text-purple-700"
+                    onClick={() => {
+                      onChange(
+                        setGroupMembers(
+                          groups,
+                          idx,
+                          parseMemberList(textEdit.value)
+                        )
+                      );
+                      setTextEdit(null);
+                    }}
+                  >
+                    적용
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <ul className="flex min-h-[3rem] flex-wrap gap-1">
+                  {/* 같은 그룹에 같은 이름이 있을 수 있어 순서로 key */}
+                  {group.members.map((name, i) => (
+                    <li
+                      key={i}
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData("text/plain", name);
+                        e.dataTransfer.effectAllowed = "move";
+                      }}
+                      onClick={() =>
+                        setSelected((s) => (s === name ? null : name))
+                      }
+                      className={`flex cursor-grab items-center gap-1 rounded-lg px-2 py-1 text-sm ${
+                        selected === name
+                          ? "bg-fuchsia-100 ring-1 ring-fuchsia-400"
+                          : duplicates.includes(name)
+                          ? "bg-amber-50 ring-1 ring-amber-300"
+                          : "bg-purple-50/60"
+                      }`}
+                    >
+                      {name}
+                      <button
+                        className="text-xs text-gray-400 hover:text-red-500"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          if (selected === name) setSelected(null);
+                          onChange(
+                            setGroupMembers(
+                              groups,
+                              idx,
+                              group.members.filter((_, j) => j !== i)
+                            )
+                          );
+                        }}
+                        title="빼기"
+                      >
+                        ×
+                      </button>
+                    </li>
+                  ))}
+                  {group.members.length === 0 && (
+                    <li className="text-xs text-gray-400">
+                      — 비어 있음 · 이름을 끌어다 놓으세요 —
+                    </li>
+                  )}
+                </ul>
+                {selected && !group.members.includes(selected) && (
+                  <button
+                    className="mt-2 w-full rounded-lg border border-dashed border-fuchsia-300 py-1 text-xs text-fuchsia-700"
+                    onClick={() => handleDrop(idx, selected)}
+                  >
+                    {selected} → 여기로 이동
+                  </button>
+                )}
+                <div className="mt-3 flex gap-2">
+                  <input
+                    value={addDrafts[group.name] ?? ""}
+                    onChange={(e) =>
+                      setAddDrafts((d) => ({
+                        ...d,
+                        [group.name]: e.target.value,
+                      }))
+                    }
+                    onKeyDown={(e) =>
+                      e.key === "Enter" && handleAddMembers(idx)
+                    }
+                    placeholder="이름 추가 (쉼표로 여러 명)"
+                    className="min-w-0 flex-1 rounded-xl border px-3 py-1 text-sm"
+                  />
+                  <button
+                    className="rounded-lg border px-2 py-1 text-xs"
+                    onClick={() =>
+                      setTextEdit({ idx, value: group.members.join("\n") })
+                    }
+                  >
+                    텍스트
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
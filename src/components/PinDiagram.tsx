@@ -0,0 +1,41 @@
+import { hasPin, PIN_ROWS, type PinMask } from "../core/pins";
+
+/**
+ * 10핀 배치도 – 서 있는 핀은 채운 원, 쓰러진 핀은 빈 원
+ * - onToggle이 있으면 핀을 눌러 서 있음/쓰러짐 전환
+ */
+export default function PinDiagram({
+  standing,
+  onToggle,
+}: {
+  standing: PinMask;
+  onToggle?: (pin: number) => void;
+}) {
+  return (
+    <div className="flex flex-col items-center gap-1.5">
+      {PIN_ROWS.map((row) => (
+        <div key={row[0]} className="flex gap-2">
+          {row.map((pin) => {
+            const up = hasPin(standing, pin);
+            return (
+              <button
+                key={pin}
+                type="button"
+                disabled={!onToggle}
+                onClick={() => onToggle?.(pin)}
+                aria-pressed={up}
+                className={`h-8 w-8 rounded-full border-2 text-xs font-semibold ${
+                  up
+                    ? "border-purple-600 bg-purple-600 text-white"
+                    : "border-gray-300 bg-white text-gray-400"
+                }`}
+              >
+                {pin}
+              </button>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+import { useState } from "react";
+import type { Player } from "../core/teams";
+import {
+  addGame,
+  addPlayer,
+  playerAverage,
+  removeGame,
+  removePlayer,
+  sortedGames,
+  todayISO,
+  updatePlayer,
+  type AvgWindow,
+  type Roster,
+} from "../core/roster";
+
+/**
+ * 로스터 편집 패널 (일반 모드)
+ * - 참석자 체크 → makeTeams 입력
+ * - 선수별 점수 기록 추가/삭제, 에버 기준(최근 N게임/시즌/전체) 선택
+ * - 최소 게임 수보다 기록이 적은 선수는 "임시" 표시, 점수판에서 온 기록은 ▦ 표시
+ */
+export default function RosterPanel({
+  roster,
+  onChange,
+  importCandidates,
+}: {
+  roster: Roster;
+  onChange: (next: Roster) => void;
+  importCandidates: Player[];
+}) {
+  const [newName, setNewName] = useState("");
+  const [newAvg, setNewAvg] = useState("");
+  const [scoreDate, setScoreDate] = useState(todayISO());
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { settings } = roster;
+  const attending = roster.players.filter((p) => p.attending).length;
+
+  const setSettings = (patch: Partial<Roster["settings"]>) =>
+    onChange({ ...roster, settings: { ...settings, ...patch } });
+
+  const handleAdd = () => {
+    const avg = Number(newAvg);
+    onChange(addPlayer(roster, newName, Number.isNaN(avg) ? 0 : avg));
+    setNewName("");
+    setNewAvg("");
+  };
+
+  const handleImport = () => {
+    let next = roster;
+    for (const p of importCandidates) next = addPlayer(next, p.name, p.avg);
+    onChange(next);
+  };
+
+  const handleScore = (id: string) => {
+    const v = Number(drafts[id]);
+    if (!drafts[id] || Number.isNaN(v) || v < 0 || v > 300) return;
+    onChange(addGame(roster, id, Math.floor(v), scoreDate));
+    setDrafts((d) => ({ ...d, [id]: "" }));
+  };
+
+  const setAll = (value: boolean) =>
+    onChange({
+      ...roster,
+      players: roster.players.map((p) => ({ ...p, attending: value })),
+    });
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <label className="font-medium">에버 기준</label>
+        <select
+          className="rounded-xl border px-2 py-1"
+          value={settings.window}
+          onChange={(e) => setSettings({ window: e.target.value as AvgWindow })}
+        >
+          <option value="last">최근 N게임</option>
+          <option value="season">시즌</option>
+          <option value="all">전체</option>
+        </select>
+        {settings.window === "last" && (
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={settings.lastN}
+            onChange={(e) =>
+              setSettings({
+                lastN: Math.max(1, Math.min(100, Number(e.target.value) || 1)),
+              })
+            }
+            className="w-16 rounded-xl border px-2 py-1"
+          />
+        )}
+        {settings.window === "season" && (
+          <input
+            type="date"
+            value={settings.seasonStart}
+            onChange={(e) => setSettings({ seasonStart: e.target.value })}
+            className="rounded-xl border px-2 py-1"
+          />
+        )}
+        <label className="ml-2 text-xs text-gray-600">최소</label>
+        <input
+          type="number"
+          min={1}
+          max={20}
+          value={settings.minGames}
+          onChange={(e) =>
+            setSettings({
+              minGames: Math.max(1, Math.min(20, Number(e.target.value) || 1)),
+            })
+          }
+          className="w-14 rounded-xl border px-2 py-1"
+        />
+        <span className="text-xs text-gray-600">게임</span>
+        <label className="ml-2 text-xs text-gray-600">새 선수 기본 에버</label>
+        <input
+          type="number"
+          min={0}
+          max={300}
+          value={settings.defaultAvg}
+          onChange={(e) =>
+            setSettings({
+              defaultAvg: Math.max(
+                0,
+                Math.min(300, Number(e.target.value) || 0)
+              ),
+            })
+          }
+          className="w-16 rounded-xl border px-2 py-1"
+        />
+      </div>
+      <p className="-mt-1 text-xs text-gray-500">
+        기록이 최소 게임 수보다 적으면 임시 에버: 선수 기본 에버로 모자란 게임을
+        채워 평균 (기본 에버가 0이면 친 게임 평균, 기록도 없으면 새 선수 기본
+        에버). 점수판에서 10프까지 끝낸 게임은 이름이 같은 선수 기록에 자동으로
+        들어가요.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="이름"
+          className="w-28 rounded-xl border px-2 py-1"
+        />
+        <input
+          type="number"
+          value={newAvg}
+          onChange={(e) => setNewAvg(e.target.value)}
+          placeholder="에버"
+          className="w-20 rounded-xl border px-2 py-1"
+        />
+        <button
+          className="rounded-lg border px-3 py-1 text-xs"
+          disabled={!newName.trim()}
+          onClick={handleAdd}
+        >
+          선수 추가
+        </button>
+        <button
+          className="rounded-lg border px-3 py-1 text-xs"
+          disabled={importCandidates.length === 0}
+          onClick={handleImport}
+        >
+          텍스트 명단에서 가져오기 ({importCandidates.length}명)
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>
+          참석 {attending}/{roster.players.length}명
+        </span>
+        <span className="flex items-center gap-2">
+          <button onClick={() => setAll(true)}>전체 선택</button>
+          <button onClick={() => setAll(false)}>전체 해제</button>
+          <span>· 기록 날짜</span>
+          <input
+            type="date"
+            value={scoreDate}
+            onChange={(e) => setScoreDate(e.target.value || todayISO())}
+            className="rounded-lg border px-1"
+          />
+        </span>
+      </div>
+
+      <ul className="max-h-96 overflow-y-auto rounded-2xl border bg-white text-sm">
+        {roster.players.map((p) => {
+          const { avg, games, provisional } = playerAverage(p, settings);
+          return (
+            <li key={p.id} className="border-b last:border-b-0 px-3 py-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={p.attending}
+                  onChange={(e) =>
+                    onChange(
+                      updatePlayer(roster, p.id, {
+                        attending: e.target.checked,
+                      })
+                    )
+                  }
+                />
+                <button
+                  className="flex-1 text-left"
+                  onClick={() => setExpanded(expanded === p.id ? null : p.id)}
+                >
+                  {p.name}
+                </button>
+                {provisional && (
+                  <span
+                    className="rounded-full bg-amber-50 px-1.5 text-[10px] text-amber-600"
+                    title={`기록 ${settings.minGames}게임 미만`}
+                  >
+                    임시
+                  </span>
+                )}
+                <span className="tabular-nums">{avg.toFixed(1)}</span>
+                <span className="w-14 text-xs text-gray-500">
+                  {games > 0 ? `${games}게임` : "기본"}
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  max={300}
+                  value={drafts[p.id] ?? ""}
+                  onChange={(e) =>
+                    setDrafts((d) => ({ ...d, [p.id]: e.target.value }))
+                  }
+                  onKeyDown={(e) => e.key === "Enter" && handleScore(p.id)}
+                  placeholder="점수"
+                  className="w-16 rounded-lg border px-2 py-0.5"
+                />
+                <button
+                  className="rounded-lg border px-2 py-0.5 text-xs"
+                  onClick={() => handleScore(p.id)}
+                >
+                  기록
+                </button>
+              </div>
+              {expanded === p.id && (
+                <div className="mt-2 rounded-xl bg-gray-50 p-2 text-xs">
+                  <div className="mb-1 flex items-center gap-2">
+                    <span>기본 에버</span>
+                    <input
+                      type="number"
+                      value={p.baseAvg}
+                      onChange={(e) =>
+                        onChange(
+                          updatePlayer(roster, p.id, {
+                            baseAvg: Number(e.target.value) || 0,
+                          })
+                        )
+                      }
+                      className="w-16 rounded border px-1"
+                    />
+                    <button
+                      className="ml-auto text-red-500"
+                      onClick={() => onChange(removePlayer(roster, p.id))}
+                    >
+                      선수 삭제
+                    </button>
+                  </div>
+                  {p.games.length === 0 ? (
+                    <div className="text-gray-400">기록 없음</div>
+                  ) : (
+                    <ul className="flex flex-wrap gap-1">
+                      {sortedGames(p).map((g) => (
+                        <li
+                          key={g.id}
+                          className="flex items-center gap-1 rounded bg-white px-2 py-0.5 shadow-sm"
+                        >
+                          <span className="text-gray-500">{g.date}</span>
+                          {g.historyId && (
+                            <span
+                              className="text-purple-400"
+                              title="점수판 기록"
+                            >
+                              ▦
+                            </span>
+                          )}
+                          <b className="tabular-nums">{g.score}</b>
+                          <button
+                            className="text-gray-400"
+                            onClick={() =>
+                              onChange(removeGame(roster, p.id, g.id))
+                            }
+                          >
+                            ✕
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+        {roster.players.length === 0 && (
+          <li className="px-3 py-4 text-center text-xs text-gray-400">
+            로스터가 비어 있어요. 선수를 추가하거나 명단을 가져오세요.
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
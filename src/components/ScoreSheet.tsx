@@ -0,0 +1,68 @@
+import { framesToPretty, type Frame } from "../core/bowling";
+
+/**
+ * 클래식 점수표 – 프레임마다 위 칸에 투구 기호(X, /, -), 아래에 누적 점수
+ * - 투구 기호는 framesToPretty 그대로 (입력 중인 프레임도), 1~9프 스트라이크는 오른쪽 칸에 X
+ * - pending: 지금 입력 중인 프레임의 투구 (아직 끝나지 않음)
+ */
+
+function ballBoxes(f: Frame | null, idx: number, pending?: number[]) {
+  const boxes = idx === 9 ? ["", "", ""] : ["", ""];
+  // 끝나지 않은 프레임도 같은 기호 (서 있던 핀을 다 쓰러뜨리면 X 또는 /)
+  const marks = [...framesToPretty(pending ?? f ?? [])];
+  // 1~9프 스트라이크는 오른쪽 칸
+  if (idx < 9 && marks[0] === "X") return ["", "X"];
+  marks.forEach((m, k) => (boxes[k] = m));
+  return boxes;
+}
+
+export default function ScoreSheet({
+  frames,
+  cumulative,
+  pending,
+  current,
+}: {
+  frames: (Frame | null)[];
+  cumulative: (number | null)[];
+  pending?: { index: number; rolls: number[] } | null;
+  current?: number; // 강조할 프레임
+}) {
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex min-w-max border border-gray-400">
+        {Array.from({ length: 10 }, (_, i) => {
+          const boxes = ballBoxes(
+            frames[i] ?? null,
+            i,
+            pending?.index === i ? pending.rolls : undefined
+          );
+          return (
+            <div
+              key={i}
+              className={`flex flex-col border-r border-gray-400 last:border-r-0 ${
+                i === current ? "bg-fuchsia-50" : "bg-white"
+              }`}
+            >
+              <div className="border-b border-gray-200 text-center text-[10px] text-gray-500">
+                {i + 1}
+              </div>
+              <div className="flex justify-end">
+                {boxes.map((m, k) => (
+                  <div
+                    key={k}
+                    className="flex h-7 w-7 items-center justify-center border-b border-l border-gray-300 text-sm font-semibold"
+                  >
+                    {m}
+                  </div>
+                ))}
+              </div>
+              <div className="flex h-8 items-center justify-center text-sm tabular-nums">
+                {cumulative[i] ?? ""}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
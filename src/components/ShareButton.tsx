@@ -0,0 +1,47 @@
+import { useState } from "react";
+
+/**
+ * 공유 링크 복사 버튼
+ * - 클립보드 API가 막혀 있으면(비보안 컨텍스트 등) 링크를 입력창으로 보여줌
+ */
+export default function ShareButton({
+  makeUrl,
+  className = "",
+}: {
+  makeUrl: () => string;
+  className?: string;
+}) {
+  const [copied, setCopied] = useState(false);
+  const [fallbackUrl, setFallbackUrl] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    const url = makeUrl();
+    try {
+      await navigator.clipboard.writeText(url);
+      setFallbackUrl(null);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      setFallbackUrl(url);
+    }
+  };
+
+  return (
+    <span className="inline-flex items-center gap-2">
+      <button
+        onClick={handleClick}
+        className={`rounded-lg border px-3 py-1 text-xs ${className}`}
+      >
+        {copied ? "복사됨 ✓" : "공유 링크 복사"}
+      </button>
+      {fallbackUrl && (
+        <input
+          readOnly
+          value={fallbackUrl}
+          onFocus={(e) => e.target.select()}
+          className="w-64 rounded-lg border px-2 py-1 text-xs"
+        />
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_SHEET_SETTINGS,
+  columnLabel,
+  gvizCsvUrl,
+  parseSheetLink,
+  type SheetSettings,
+} from "../core/sheet";
+
+/**
+ * 스프레드시트 데이터 소스 설정
+ * - 링크 붙여넣기(gid 자동 추출), 시트 탭(gid/이름) 선택
+ * - 링크/gid/시트 이름은 적용·blur·Enter 때만 반영 (글자마다 다시 불러오지 않게)
+ * - 이름/에버/참석 열 매핑 – 불러온 첫 행을 열 이름으로 보여줌
+ */
+export default function SheetSettingsPanel({
+  settings,
+  onChange,
+  header,
+}: {
+  settings: SheetSettings;
+  onChange: (next: SheetSettings) => void;
+  header: string[]; // 불러온 시트의 첫 행 (없으면 빈 배열)
+}) {
+  const [linkDraft, setLinkDraft] = useState(settings.link);
+  const [gidDraft, setGidDraft] = useState(settings.gid);
+  const [nameDraft, setNameDraft] = useState(settings.sheetName);
+  useEffect(() => setGidDraft(settings.gid), [settings.gid]);
+  useEffect(() => setNameDraft(settings.sheetName), [settings.sheetName]);
+  const parsed = parseSheetLink(linkDraft);
+  const url = gvizCsvUrl(settings);
+
+  const set = (patch: Partial<SheetSettings>) =>
+    onChange({ ...settings, ...patch });
+
+  const applyLink = () => {
+    if (!parsed) return;
+    set({ link: linkDraft.trim(), gid: parsed.gid ?? settings.gid });
+  };
+
+  const applyTab = () => {
+    if (gidDraft !== settings.gid || nameDraft !== settings.sheetName)
+      set({ gid: gidDraft, sheetName: nameDraft });
+  };
+
+  const colCount = Math.max(header.length, 6);
+  const colOptions = Array.from({ length: colCount }, (_, i) => ({
+    value: i,
+    label: `${columnLabel(i)}${
+      settings.hasHeader && header[i] ? ` · ${header[i]}` : ""
+    }`,
+  }));
+
+  const colSelect = (
+    value: number | null,
+    onPick: (v: number | null) => void,
+    optional = false
+  ) => (
+    <select
+      className="rounded-xl border px-2 py-1"
+      value={value === null ? "" : String(value)}
+      onChange={(e) =>
+        onPick(e.target.value === "" ? null : Number(e.target.value))
+      }
+    >
+      {optional && <option value="">사용 안 함</option>}
+      {colOptions.map((o) => (
+        <option key={o.value} value={o.value}>
+          {o.label}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="mb-6 rounded-2xl bg-white shadow p-4 text-sm">
+      <div className="font-medium mb-2">스프레드시트 설정</div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={linkDraft}
+          onChange={(e) => setLinkDraft(e.target.value)}
+          placeholder="Google 스프레드시트 링크 붙여넣기"
+          className={`min-w-0 flex-1 rounded-xl border px-3 py-1 ${
+            linkDraft && !parsed ? "border-red-400" : ""
+          }`}
+        />
+        <button
+          className="rounded-lg border px-3 py-1 text-xs"
+          disabled={!parsed || linkDraft.trim() === settings.link}
+          onClick={applyLink}
+        >
+          적용
+        </button>
+      </div>
+      {linkDraft && !parsed && (
+        <div className="mt-1 text-xs text-red-500">
+          스프레드시트 링크에서 문서 id를 찾지 못했어요
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <label>시트 gid</label>
+        <input
+          value={gidDraft}
+          onChange={(e) => setGidDraft(e.target.value.replace(/\D/g, ""))}
+          onBlur={applyTab}
+          onKeyDown={(e) => e.key === "Enter" && applyTab()}
+          className="w-28 rounded-xl border px-2 py-1"
+        />
+        <label>또는 시트 이름</label>
+        <input
+          value={nameDraft}
+          onChange={(e) => setNameDraft(e.target.value)}
+          onBlur={applyTab}
+          onKeyDown={(e) => e.key === "Enter" && applyTab()}
+          placeholder="예) 9월 정모"
+          className="w-32 rounded-xl border px-2 py-1"
+        />
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={settings.hasHeader}
+            onChange={(e) => set({ hasHeader: e.target.checked })}
+          />
+          첫 행은 헤더
+        </label>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <label>이름 열</label>
+        {colSelect(settings.nameCol, (v) => set({ nameCol: v ?? 0 }))}
+        <label>에버 열</label>
+        {colSelect(settings.avgCol, (v) => set({ avgCol: v ?? 1 }))}
+        <label>참석 열</label>
+        {colSelect(settings.attendCol, (v) => set({ attendCol: v }), true)}
+        <button
+          className="ml-auto text-xs text-gray-500"
+          onClick={() => {
+            setLinkDraft(DEFAULT_SHEET_SETTINGS.link);
+            onChange(DEFAULT_SHEET_SETTINGS);
+          }}
+        >
+          기본값으로
+        </button>
+      </div>
+
+      <p className="mt-2 break-all text-xs text-gray-400">
+        {url ?? "링크를 확인해 주세요"}
+        {settings.attendCol !== null &&
+          " · 참석 열이 TRUE/Y/O/1/참석인 행만 사용"}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import type { TrendPoint } from "../core/stats";
+
+/**
+ * 점수 추세 차트 (SVG) – 게임별 점수는 점, 이동 평균은 선
+ * - 세로축은 점수 범위에 맞춰 50점 단위 눈금
+ * - 가로축은 게임 순서 (첫/마지막 날짜 표시)
+ */
+
+const W = 640;
+const H = 220;
+const PAD = { left: 36, right: 12, top: 12, bottom: 24 };
+
+export default function TrendChart({ points }: { points: TrendPoint[] }) {
+  if (points.length === 0) return null;
+  const scores = points.flatMap((p) => [p.score, p.rolling]);
+  const lo = Math.max(0, Math.floor(Math.min(...scores) / 50) * 50);
+  const hi = Math.min(300, Math.ceil(Math.max(...scores) / 50) * 50);
+  const top = hi > lo ? hi : lo + 50;
+  const x = (i: number) =>
+    PAD.left +
+    (points.length === 1
+      ? (W - PAD.left - PAD.right) / 2
+      : (i / (points.length - 1)) * (W - PAD.left - PAD.right));
+  const y = (v: number) =>
+    PAD.top + (1 - (v - lo) / (top - lo)) * (H - PAD.top - PAD.bottom);
+  const ticks = Array.from(
+    { length: (top - lo) / 50 + 1 },
+    (_, k) => lo + k * 50
+  );
+
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H}`}
+      className="h-auto w-full"
+      role="img"
+      aria-label="점수 추세"
+    >
+      {ticks.map((t) => (
+        <g key={t}>
+          <line
+            x1={PAD.left}
+            x2={W - PAD.right}
+            y1={y(t)}
+            y2={y(t)}
+            className="stroke-gray-100"
+          />
+          <text
+            x={PAD.left - 6}
+            y={y(t) + 4}
+            textAnchor="end"
+            className="fill-gray-400 text-[10px]"
+          >
+            {t}
+          </text>
+        </g>
+      ))}
+      <polyline
+        points={points.map((p, i) => `${x(i)},${y(p.rolling)}`).join(" ")}
+        fill="none"
+        strokeWidth={2}
+        className="stroke-fuchsia-500"
+      />
+      {points.map((p, i) => {
+        const rolling = p.rolling.toFixed(1);
+        const label = `${p.date} · ${p.score}점 (이동 평균 ${rolling})`;
+        return (
+          <circle
+            key={i}
+            cx={x(i)}
+            cy={y(p.score)}
+            r={3}
+            className="fill-purple-300"
+          >
+            <title>{label}</title>
+          </circle>
+        );
+      })}
+      <text x={PAD.left} y={H - 6} className="fill-gray-400 text-[10px]">
+        {points[0].date}
+      </text>
+      <text
+        x={W - PAD.right}
+        y={H - 6}
+        textAnchor="end"
+        className="fill-gray-400 text-[10px]"
+      >
+        {points[points.length - 1].date}
+      </text>
+    </svg>
+  );
+}
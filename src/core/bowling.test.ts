@@ -0,0 +1,231 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatGameLine,
+  framesToPretty,
+  parseFrameSymbol,
+  parseGameLine,
+  parseMarkedFrame,
+  scoreGame,
+  type Frame,
+  type FrameMarks,
+} from "./bowling";
+import { candidatePools } from "./candidates";
+import { createRng } from "./random";
+import { evaluateGame, isFrameComplete, pinsStanding } from "./scoring";
+
+const game = (line: string) => line.split(" ").map((s) => parseFrameSymbol(s)!);
+
+// 시드 고정 난수로 규칙에 맞는 게임 하나
+function randomGame(seed: string): Frame[] {
+  const rng = createRng(seed);
+  return Array.from({ length: 10 }, (_, i) => {
+    const rolls: number[] = [];
+    while (!isFrameComplete(rolls, i)) {
+      const standing = pinsStanding(rolls, i);
+      rolls.push(rng() < 0.3 ? standing : Math.floor(rng() * (standing + 1)));
+    }
+    return rolls;
+  });
+}
+
+describe("parseFrameSymbol", () => {
+  it.each([
+    ["X", [10]],
+    ["9/", [9, 1]],
+    ["-/", [0, 10]],
+    ["81", [8, 1]],
+    ["9-", [9, 0]],
+    ["--", [0, 0]],
+    [" x ", [10]],
+    ["XXX", [10, 10, 10]],
+    ["XX9", [10, 10, 9]],
+    ["X9/", [10, 9, 1]],
+    ["X9-", [10, 9, 0]],
+    ["X-/", [10, 0, 10]],
+    ["F9", [0, 9]],
+    ["S7/", [7, 3]],
+    ["10", [1, 0]],
+    ["72", [7, 2]],
+    ["7 2", [7, 2]],
+    ["9/X", [9, 1, 10]],
+    ["9/8", [9, 1, 8]],
+  ])("%s → %j", (sym, frame) => {
+    expect(parseFrameSymbol(sym)).toEqual(frame);
+  });
+
+  it.each([
+    "",
+    "Y",
+    "X9",
+    "99",
+    "/",
+    "X/",
+    "XX/",
+    "81X",
+    "9-X",
+    "X99",
+    "1/X/",
+    "81-",
+    "S9",
+    "9S/",
+    "XXXX",
+  ])("잘못된 기호 %j는 null", (sym) => {
+    expect(parseFrameSymbol(sym)).toBeNull();
+  });
+});
+
+describe("framesToPretty", () => {
+  it.each([
+    [[10], "X"],
+    [[9, 1], "9/"],
+    [[0, 10], "-/"],
+    [[0, 0], "--"],
+    [[7, 2], "72"],
+    [[10, 10, 10], "XXX"],
+    [[10, 9, 1], "X9/"],
+    [[9, 1, 10], "9/X"],
+    [[10, 0, 10], "X-/"],
+    [[10, 10, 0], "XX-"],
+    [[10, 0, 0], "X--"],
+  ])("%j → %s", (frame, sym) => {
+    expect(framesToPretty(frame)).toBe(sym);
+  });
+
+  it("모든 후보 프레임에서 parse(pretty(f)) === f", () => {
+    const { normal, tenth } = candidatePools(false);
+    for (const f of [...normal, ...tenth])
+      expect(parseFrameSymbol(framesToPretty(f))).toEqual(f);
+  });
+});
+
+describe("scoreGame", () => {
+  it("퍼펙트 게임은 300", () => {
+    expect(scoreGame(game("X X X X X X X X X XXX"))).toBe(300);
+  });
+
+  it("거터 게임은 0, 전부 9-는 90", () => {
+    expect(scoreGame(Array(10).fill([0, 0]))).toBe(0);
+    expect(scoreGame(Array(10).fill([9, 0]))).toBe(90);
+  });
+
+  it("전부 9/에 마지막 9는 190", () => {
+    expect(scoreGame(game("9/ 9/ 9/ 9/ 9/ 9/ 9/ 9/ 9/ 9/9"))).toBe(190);
+  });
+
+  it("10프 스페어 보너스는 한 번만", () => {
+    expect(scoreGame(game("-- -- -- -- -- -- -- -- -- 9/X"))).toBe(20);
+  });
+
+  it("예시 게임", () => {
+    expect(scoreGame(game("X 9/ 81 X X 7- 9/ X 8/ X9/"))).toBe(178);
+  });
+
+  it("무작위 게임 500개에서 프레임 엔진과 같은 점수", () => {
+    for (let i = 0; i < 500; i++) {
+      const g = randomGame(`game-${i}`);
+      const ev = evaluateGame(g);
+      expect(ev.complete).toBe(true);
+      expect(scoreGame(g)).toBe(ev.total);
+      expect(scoreGame(g)).toBeLessThanOrEqual(300);
+    }
+  });
+});
+
+// 무작위 게임에 파울(0핀)/스플릿(새 랙 첫 구 1~8핀) 표시를 섞음
+function randomMarks(g: Frame[], seed: string): FrameMarks[] {
+  const rng = createRng(seed);
+  return g.map((f) => {
+    let standing = 10;
+    let fresh = true;
+    return f.map((pins) => {
+      const first = fresh;
+      standing -= pins;
+      fresh = standing === 0;
+      if (fresh) standing = 10;
+      if (pins === 0 && rng() < 0.5) return "foul";
+      if (first && pins >= 1 && pins <= 8 && rng() < 0.5) return "split";
+      return null;
+    });
+  });
+}
+
+describe("parseMarkedFrame", () => {
+  it("파울과 스플릿 표시를 투구별로", () => {
+    expect(parseMarkedFrame("S7/")).toEqual({
+      frame: [7, 3],
+      marks: ["split", null],
+    });
+    expect(parseMarkedFrame("XS8F")).toEqual({
+      frame: [10, 8, 0],
+      marks: [null, "split", "foul"],
+    });
+  });
+});
+
+describe("game line", () => {
+  const line = "X 9/ 81 X X 7- 9/ X 8/ X9/";
+
+  it("한 줄 읽기", () => {
+    const { frames, issues } = parseGameLine(line, "strict");
+    expect(issues).toEqual([]);
+    expect(frames).toHaveLength(10);
+    expect(scoreGame(frames)).toBe(178);
+    expect(formatGameLine(frames)).toBe(line);
+  });
+
+  it("무작위 게임 500개에서 엄격 모드로 정확히 되돌아옴", () => {
+    for (let i = 0; i < 500; i++) {
+      const frames = randomGame(`line-${i}`);
+      const marks = randomMarks(frames, `marks-${i}`);
+      const text = formatGameLine(frames, marks);
+      expect(parseGameLine(text, "strict")).toEqual({
+        frames,
+        marks,
+        issues: [],
+      });
+    }
+  });
+
+  it("너그럽게: 소문자, 0, 숫자 스페어, 쉼표/붙여쓰기, 중간까지", () => {
+    const strictLine = parseGameLine(line, "strict").frames;
+    for (const text of [
+      "x 9/ 81 x x 70 91 x 82 x9/",
+      "X,9/,81,X,X,7-,9/,X,8/,X9/",
+      "X9/81XX7-9/X8/X9/",
+      "  X | 9/ | 81 | X | X | 7- | 9/ | X | 8/ | X9/  ",
+    ])
+      expect(parseGameLine(text)).toEqual(parseGameLine(line));
+    expect(parseGameLine(line).frames).toEqual(strictLine);
+    expect(parseGameLine("X 9/ 81").frames).toHaveLength(3);
+    expect(parseGameLine("X 9/ 81").issues).toEqual([]);
+  });
+
+  it.each([
+    ["x 9/ 81 X X 7- 9/ X 8/ X9/", 0, 0],
+    ["X 9/ 80 X X 7- 9/ X 8/ X9/", 6, 2],
+    ["X 9/ 81 X X 7- 9/ X 8/ X91", 25, 9],
+    ["X 9/ 8 1 X X 7- 9/ X 8/ X9/", 6, 2],
+    ["X 9/  81 X X 7- 9/ X 8/ X9/", 4, 2],
+    ["X 9/81 X X 7- 9/ X 8/ X9/", 4, 2],
+    ["X 9/ 81 X X", 11, 5],
+    ["X 9/ 8", 6, 2],
+  ])("엄격: %j는 %i번째 글자(%i프)에서 멈춤", (text, pos, frame) => {
+    const { issues } = parseGameLine(text, "strict");
+    expect(issues).toHaveLength(1);
+    expect(issues[0].pos).toBe(pos);
+    expect(issues[0].frame).toBe(frame);
+  });
+
+  it("너그럽게도 규칙 위반은 위치와 함께", () => {
+    expect(parseGameLine("X 9/ 87").issues[0]).toMatchObject({
+      pos: 6,
+      frame: 2,
+    });
+    expect(parseGameLine("X 9X").issues[0]).toMatchObject({ pos: 3, frame: 1 });
+    expect(parseGameLine("X X X X X X X X X XXX X").issues[0]).toMatchObject({
+      pos: 22,
+      frame: null,
+    });
+    expect(parseGameLine("X 9").issues[0]).toMatchObject({ pos: 3, length: 0 });
+  });
+});
@@ -0,0 +1,254 @@
+import { isFrameComplete, validateFrame } from "./scoring";
+
+/**
+ * 볼링 프레임 표기/점수 계산
+ * - 기호: X(스트라이크), /(스페어), -(0), 숫자(핀 수) · 10프는 2~3구
+ * - 표시: F(파울, 0핀), S(스플릿, 새 랙 첫 구 숫자 앞에 – "S7/")
+ * - 숫자는 한 글자가 한 구 ("10"은 1핀 다음 0핀)
+ * - 게임 한 줄: 프레임을 띄어 써서 "X 9/ 81 X X 7- 9/ X 8/ X9/"
+ *   엄격(strict): formatGameLine이 만드는 표기만 – 대문자, 0은 "-", 스페어는 "/", 한 칸 띄어쓰기, 10프까지
+ *   너그럽게(lenient): 소문자/0/숫자로 적은 스페어 허용, 쉼표·| 구분, 띄어쓰기 없어도 됨, 중간까지만 적어도 됨
+ */
+
+export type Frame = number[]; // 각 프레임의 투구 핀수 배열 (10프는 2~3개)
+export type BallMark = "foul" | "split";
+export type FrameMarks = (BallMark | null)[]; // 투구별 표시
+export type ParseMode = "strict" | "lenient";
+
+// 지금 랙에 서 있는 핀과 새 랙인지 (10프는 스트라이크/스페어 뒤 새 랙)
+function rackState(rolls: number[]) {
+  let standing = 10;
+  let fresh = true;
+  for (const pins of rolls) {
+    standing -= pins;
+    fresh = standing === 0;
+    if (fresh) standing = 10;
+  }
+  return { standing, fresh };
+}
+
+type Ball =
+  | { pins: number; mark: BallMark | null; length: number }
+  | { error: string; length: number };
+
+// s[pos]부터 투구 하나 읽기
+function readBall(
+  s: string,
+  pos: number,
+  rolls: number[],
+  mode: ParseMode
+): Ball {
+  const { standing, fresh } = rackState(rolls);
+  const ch = s[pos];
+  const strict = mode === "strict";
+  if (strict && /[xfs]/.test(ch))
+    return {
+      error: `"${ch.toUpperCase()}"처럼 대문자로 적어 주세요`,
+      length: 1,
+    };
+  const c = ch.toUpperCase();
+
+  if (c === "S") {
+    const d = s[pos + 1] ?? "";
+    if (!fresh)
+      return {
+        error: "스플릿(S)은 새 랙의 첫 구에만 붙일 수 있어요",
+        length: 1,
+      };
+    if (!/[1-8]/.test(d))
+      return { error: "스플릿(S) 뒤에는 1~8 핀 수를 적어 주세요", length: 2 };
+    return { pins: Number(d), mark: "split", length: 2 };
+  }
+  if (c === "X") {
+    if (!fresh)
+      return {
+        error: `${standing}핀이 남아 있어 스트라이크(X)가 될 수 없어요`,
+        length: 1,
+      };
+    return { pins: 10, mark: null, length: 1 };
+  }
+  if (c === "/") {
+    if (fresh)
+      return { error: "새 랙의 첫 구는 스페어(/)가 될 수 없어요", length: 1 };
+    return { pins: standing, mark: null, length: 1 };
+  }
+  if (c === "F") return { pins: 0, mark: "foul", length: 1 };
+  if (c === "-") return { pins: 0, mark: null, length: 1 };
+  if (/[0-9]/.test(c)) {
+    const d = Number(c);
+    if (strict && d === 0)
+      return { error: '0핀은 "-"로 적어 주세요', length: 1 };
+    if (d > standing)
+      return { error: `${standing}핀밖에 안 남았어요`, length: 1 };
+    if (strict && d === standing)
+      return { error: '남은 핀을 다 쓰러뜨리면 "/"로 적어 주세요', length: 1 };
+    return { pins: d, mark: null, length: 1 };
+  }
+  return { error: `"${ch}"는 쓸 수 없는 기호예요`, length: 1 };
+}
+
+// 투구 하나의 기호 (표시는 그 자리에 맞을 때만)
+function ballSymbol(
+  pins: number,
+  mark: BallMark | null | undefined,
+  standing: number,
+  fresh: boolean
+) {
+  if (fresh && pins === 10) return "X";
+  if (!fresh && pins === standing) return "/";
+  if (pins === 0) return mark === "foul" ? "F" : "-";
+  return (mark === "split" && fresh && pins <= 8 ? "S" : "") + pins;
+}
+
+/* -------------------- 프레임 하나 -------------------- */
+export type MarkedFrame = { frame: Frame; marks: FrameMarks };
+
+// 프레임 하나 (너그럽게) – 1~9프 모양이거나 끝난 10프 모양이면 통과
+export function parseMarkedFrame(sym: string): MarkedFrame | null {
+  const s = sym.replace(/\s+/g, "");
+  if (!s) return null;
+  const frame: Frame = [];
+  const marks: FrameMarks = [];
+  for (let pos = 0; pos < s.length; ) {
+    // 1~9프는 스트라이크/2구로 끝, 그 뒤에 더 있으면 10프로만 읽힘
+    if (frame.length === 3) return null;
+    const ball = readBall(s, pos, frame, "lenient");
+    if ("error" in ball) return null;
+    frame.push(ball.pins);
+    marks.push(ball.mark);
+    pos += ball.length;
+  }
+  const [a] = frame;
+  const normal = frame.length === 1 ? a === 10 : frame.length === 2 && a < 10;
+  const tenth = frame.length === 3 && !validateFrame(frame, 9);
+  return normal || tenth ? { frame, marks } : null;
+}
+
+export function parseFrameSymbol(sym: string): Frame | null {
+  return parseMarkedFrame(sym)?.frame ?? null;
+}
+
+// 프레임 기호 – parseFrameSymbol의 역 (끝나지 않은 프레임의 투구도 그대로 적음)
+export function framesToPretty(fr: Frame, marks: FrameMarks = []): string {
+  let out = "";
+  for (let k = 0; k < fr.length; k++) {
+    const { standing, fresh } = rackState(fr.slice(0, k));
+    out += ballSymbol(fr[k], marks[k], standing, fresh);
+  }
+  return out;
+}
+
+/* -------------------- 게임 한 줄 -------------------- */
+export type LineIssue = {
+  pos: number; // 입력 문자열 위치 (0부터)
+  length: number; // 문제 있는 글자 수 (끝에서 모자라면 0)
+  frame: number | null; // 0부터
+  message: string;
+};
+
+export type GameLine = {
+  frames: Frame[]; // 끝난 프레임만 (1프부터 차례로)
+  marks: FrameMarks[];
+  issues: LineIssue[]; // 첫 문제에서 멈춤
+};
+
+/**
+ * 게임 한 줄 읽기
+ * - 투구 수는 프레임 규칙으로 정해지므로 너그럽게 모드에서는 띄어쓰기가 없어도 됨
+ * - 문제가 있으면 그 위치까지 읽은 프레임과 함께 돌려줌
+ */
+export function parseGameLine(
+  text: string,
+  mode: ParseMode = "lenient"
+): GameLine {
+  const strict = mode === "strict";
+  const isSep = (ch: string) => (strict ? ch === " " : /[\s,|]/.test(ch));
+  const frames: Frame[] = [];
+  const marks: FrameMarks[] = [];
+  const issues: LineIssue[] = [];
+  const fail = (pos: number, length: number, message: string) => {
+    issues.push({
+      pos,
+      length,
+      frame: frames.length < 10 ? frames.length : null,
+      message,
+    });
+    return { frames, marks, issues };
+  };
+
+  let pos = text.length - text.trimStart().length;
+  const end = text.trimEnd().length;
+  let rolls: number[] = [];
+  let ballMarks: FrameMarks = [];
+  while (pos < end) {
+    const ch = text[pos];
+    if (isSep(ch)) {
+      if (strict && rolls.length > 0)
+        return fail(pos, 1, `${frames.length + 1}프가 끝나기 전에 띄어 썼어요`);
+      if (strict && text[pos + 1] === " ")
+        return fail(pos, 2, "프레임 사이는 한 칸만 띄어 주세요");
+      pos++;
+      continue;
+    }
+    if (frames.length === 10)
+      return fail(pos, end - pos, "10프 뒤에 더 적혀 있어요");
+    if (
+      strict &&
+      rolls.length === 0 &&
+      frames.length > 0 &&
+      !isSep(text[pos - 1])
+    )
+      return fail(pos, 1, `${frames.length + 1}프 앞을 띄어 써 주세요`);
+
+    const ball = readBall(text, pos, rolls, mode);
+    if ("error" in ball) return fail(pos, ball.length, ball.error);
+    rolls.push(ball.pins);
+    ballMarks.push(ball.mark);
+    pos += ball.length;
+    if (isFrameComplete(rolls, frames.length)) {
+      frames.push(rolls);
+      marks.push(ballMarks);
+      rolls = [];
+      ballMarks = [];
+    }
+  }
+  if (rolls.length > 0)
+    return fail(end, 0, `${frames.length + 1}프가 끝나지 않았어요`);
+  if (strict && frames.length < 10)
+    return fail(end, 0, "10프까지 모두 적어 주세요");
+  return { frames, marks, issues };
+}
+
+// 게임 한 줄 쓰기 – 엄격 모드 parseGameLine의 역
+export function formatGameLine(frames: Frame[], marks: FrameMarks[] = []) {
+  return frames.map((f, i) => framesToPretty(f, marks[i])).join(" ");
+}
+
+/* -------------------- 점수 계산 -------------------- */
+export function scoreGame(frames: Frame[]): number {
+  const rolls: number[] = [];
+  for (let i = 0; i < frames.length; i++) rolls.push(...frames[i]);
+
+  let score = 0;
+  let rollIndex = 0;
+  for (let frame = 1; frame <= 10; frame++) {
+    const first = rolls[rollIndex] ?? 0;
+
+    if (first === 10) {
+      score += 10 + (rolls[rollIndex + 1] ?? 0) + (rolls[rollIndex + 2] ?? 0);
+      rollIndex += 1;
+    } else {
+      const a = first;
+      const b = rolls[rollIndex + 1] ?? 0;
+      const sum = a + b;
+      if (sum === 10) {
+        score += 10 + (rolls[rollIndex + 2] ?? 0);
+      } else {
+        score += sum;
+      }
+      rollIndex += 2;
+    }
+    // 10프 보너스 구는 위의 스트라이크/스페어 보너스로 이미 더해짐
+  }
+  return score;
+}
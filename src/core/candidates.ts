@@ -0,0 +1,83 @@
+import type { Frame } from "./bowling";
+import type { FramePools } from "./solver";
+
+/**
+ * 목표 점수 역산 후보 프레임
+ * - 1~9프: 스트라이크/스페어/오픈 전부, 10프: 보너스 구까지 전부
+ * - 첫구 0 금지 필터: 프레임 첫 투구가 0(거터)인 후보 제외
+ * - 만든 후보는 필터 설정별로 한 번만 만들어 재사용
+ */
+
+function generateNormalFrameCandidates_NoFilter(): Frame[] {
+  const res: Frame[] = [];
+  res.push([10]);
+  for (let a = 0; a <= 9; a++) res.push([a, 10 - a]);
+  for (let a = 0; a <= 9; a++) {
+    for (let b = 0; b <= 9 - a; b++) res.push([a, b]);
+  }
+  return res;
+}
+function generateTenthFrameCandidates_NoFilter(): Frame[] {
+  const res: Frame[] = [];
+  for (let a = 0; a <= 9; a++) {
+    for (let b = 0; b <= 9 - a; b++) res.push([a, b]);
+  }
+  for (let a = 0; a <= 9; a++) {
+    for (let c = 0; c <= 10; c++) res.push([a, 10 - a, c]);
+  }
+  for (let b = 0; b <= 10; b++) {
+    if (b === 10) {
+      for (let c = 0; c <= 10; c++) res.push([10, b, c]);
+    } else {
+      for (let c = 0; c <= 10 - b; c++) res.push([10, b, c]);
+    }
+  }
+  return res;
+}
+
+// 첫구 0 금지
+function generateNormalFrameCandidates_FilterFirstZero(): Frame[] {
+  const res: Frame[] = [];
+  res.push([10]);
+  for (let a = 1; a <= 9; a++) res.push([a, 10 - a]);
+  for (let a = 1; a <= 9; a++) {
+    for (let b = 0; b <= 9 - a; b++) res.push([a, b]);
+  }
+  return res;
+}
+function generateTenthFrameCandidates_FilterFirstZero(): Frame[] {
+  const res: Frame[] = [];
+  for (let a = 1; a <= 9; a++) {
+    for (let b = 0; b <= 9 - a; b++) res.push([a, b]);
+  }
+  for (let a = 1; a <= 9; a++) {
+    for (let c = 0; c <= 10; c++) res.push([a, 10 - a, c]);
+  }
+  for (let b = 0; b <= 10; b++) {
+    if (b === 10) {
+      for (let c = 0; c <= 10; c++) res.push([10, b, c]);
+    } else {
+      for (let c = 0; c <= 10 - b; c++) res.push([10, b, c]);
+    }
+  }
+  return res;
+}
+
+const POOLS = new Map<boolean, FramePools>();
+
+export function candidatePools(forbidFirstZero: boolean): FramePools {
+  let pools = POOLS.get(forbidFirstZero);
+  if (!pools) {
+    pools = forbidFirstZero
+      ? {
+          normal: generateNormalFrameCandidates_FilterFirstZero(),
+          tenth: generateTenthFrameCandidates_FilterFirstZero(),
+        }
+      : {
+          normal: generateNormalFrameCandidates_NoFilter(),
+          tenth: generateTenthFrameCandidates_NoFilter(),
+        };
+    POOLS.set(forbidFirstZero, pools);
+  }
+  return pools;
+}
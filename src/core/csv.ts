@@ -0,0 +1,88 @@
+/**
+ * CSV/TSV 파서
+ * - 따옴표("a, b") 안의 구분자/줄바꿈, "" 이스케이프
+ * - BOM 제거, 구분자 자동 감지 (탭 = 엑셀 붙여넣기 > 세미콜론 > 쉼표)
+ * - 각 레코드가 시작한 줄 번호(1부터)를 함께 반환 → 줄 단위 진단에 사용
+ */
+
+export type Delimiter = "," | ";" | "\t";
+
+export type CsvRecord = { line: number; fields: string[] };
+
+export function stripBom(text: string) {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+// 따옴표 밖의 구분자 개수로 판단
+export function detectDelimiter(text: string): Delimiter {
+  const counts = { ",": 0, ";": 0, "\t": 0 };
+  let quoted = false;
+  for (const ch of stripBom(text)) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && ch in counts) counts[ch as Delimiter]++;
+  }
+  if (counts["\t"] > 0) return "\t";
+  if (counts[";"] > counts[","]) return ";";
+  return ",";
+}
+
+export function parseCsvRecords(
+  text: string,
+  delimiter: Delimiter = detectDelimiter(text)
+): CsvRecord[] {
+  const src = stripBom(text);
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    row.push(field);
+    records.push({ line: rowLine, fields: row });
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && field.trim() === "") {
+      // 따옴표 앞 공백은 버림 ( , "a")
+      field = "";
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else field += ch;
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return records;
+}
+
+export function parseCsvRows(text: string, delimiter?: Delimiter): string[][] {
+  return parseCsvRecords(text, delimiter).map((r) => r.fields);
+}
+
+// 구분자/따옴표/줄바꿈이 들어 있으면 따옴표로 감싸기
+export function formatCsvField(value: string, delimiter: Delimiter = ",") {
+  if (!value.includes(delimiter) && !/["\r\n]/.test(value)) return value;
+  return `"${value.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,88 @@
+import type { Frame } from "./bowling";
+
+/**
+ * 기록된 게임으로 배운 투구 확률 모델
+ * - 공 하나의 확률은 "서 있는 핀 수"에만 의존한다고 봄
+ *   서 있는 핀 10개(새 랙) → 첫구 분포, 1~9개 → 남은 핀 처리(스페어) 분포
+ * - 프레임 확률 = 투구별 확률의 곱 → 솔버 순위 가중치는 log 확률
+ * - 기록이 적어도 0이 안 나오게 사전 분포와 섞음
+ *   (클럽 전체는 균등 분포, 선수별은 클럽 모델을 사전으로)
+ */
+
+export type FrameModel = {
+  games: number; // 학습에 쓴 게임 수
+  // ball[서 있는 핀][쓰러뜨린 핀] = 확률 (ball[0]은 안 씀)
+  ball: number[][];
+};
+
+// 사전 분포를 관측 몇 개만큼으로 칠지
+const PRIOR_WEIGHT = 10;
+
+// 프레임의 투구를 (던질 때 서 있던 핀, 쓰러뜨린 핀)으로
+export function frameBalls(f: Frame, idx: number): [number, number][] {
+  const balls: [number, number][] = [];
+  let standing = 10;
+  for (const pins of f) {
+    balls.push([standing, pins]);
+    standing -= pins;
+    // 10프는 스트라이크/스페어 뒤 새 랙
+    if (standing === 0 && idx === 9) standing = 10;
+  }
+  return balls;
+}
+
+function uniformModel(): FrameModel {
+  return {
+    games: 0,
+    ball: Array.from({ length: 11 }, (_, s) =>
+      Array.from({ length: s + 1 }, () => 1 / (s + 1))
+    ),
+  };
+}
+
+export function buildFrameModel(
+  games: Frame[][],
+  prior: FrameModel | null = null
+): FrameModel {
+  const base = prior ?? uniformModel();
+  const counts = Array.from({ length: 11 }, (_, s) =>
+    Array<number>(s + 1).fill(0)
+  );
+  for (const game of games)
+    game.forEach((f, i) => {
+      for (const [standing, pins] of frameBalls(f, i))
+        if (pins <= standing) counts[standing][pins]++;
+    });
+  return {
+    games: games.length,
+    ball: counts.map((row, s) => {
+      const n = row.reduce((a, b) => a + b, 0);
+      return row.map(
+        (c, pins) =>
+          (c + PRIOR_WEIGHT * base.ball[s][pins]) / (n + PRIOR_WEIGHT)
+      );
+    }),
+  };
+}
+
+export function frameProbability(model: FrameModel, f: Frame, idx: number) {
+  return frameBalls(f, idx).reduce(
+    (p, [standing, pins]) => p * (model.ball[standing]?.[pins] ?? 0),
+    1
+  );
+}
+
+// 화면 요약용: 스트라이크율, 스페어 처리율(첫구 뒤 남은 핀을 다 쓰러뜨릴 확률 평균)
+export function modelSummary(model: FrameModel) {
+  const first = model.ball[10];
+  const strike = first[10];
+  const leftover = 1 - strike;
+  const spare =
+    leftover > 0
+      ? first
+          .slice(0, 10)
+          .reduce((sum, p, a) => sum + p * model.ball[10 - a][10 - a], 0) /
+        leftover
+      : 0;
+  return { strike, spare };
+}
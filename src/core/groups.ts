@@ -0,0 +1,208 @@
+import { parseCsvRecords } from "./csv";
+
+/**
+ * 랜덤 모드 그룹 목록
+ * - 배열 순서 = 화면/팀 내 정렬 순서 (사용자가 직접 바꿈)
+ * - 그룹 이름은 비어 있지 않고 서로 달라야 함
+ * - 모든 갱신 헬퍼는 새 배열을 반환 (불변)
+ */
+
+export type Group = { name: string; members: string[] };
+
+export type GroupPreset = {
+  name: string;
+  groups: Group[];
+  savedAt: string; // ISO 시각
+};
+
+export type GroupImportIssue = { line: number; message: string };
+
+export function nextGroupName(groups: Group[]) {
+  const used = new Set(groups.map((g) => g.name));
+  let n = 1;
+  while (used.has(`${n}그룹`)) n++;
+  return `${n}그룹`;
+}
+
+export function addGroup(groups: Group[]): Group[] {
+  return [...groups, { name: nextGroupName(groups), members: [] }];
+}
+
+// 이름 변경 가능 여부 (문제 없으면 null)
+export function groupNameError(groups: Group[], idx: number, name: string) {
+  const trimmed = name.trim();
+  if (!trimmed) return "그룹 이름을 입력해 주세요.";
+  if (groups.some((g, i) => i !== idx && g.name === trimmed))
+    return `"${trimmed}" 그룹이 이미 있어요.`;
+  return null;
+}
+
+export function renameGroup(
+  groups: Group[],
+  idx: number,
+  name: string
+): Group[] {
+  if (groupNameError(groups, idx, name)) return groups;
+  return groups.map((g, i) => (i === idx ? { ...g, name: name.trim() } : g));
+}
+
+export function removeGroup(groups: Group[], idx: number): Group[] {
+  return groups.filter((_, i) => i !== idx);
+}
+
+// delta: -1 = 앞으로, +1 = 뒤로
+export function moveGroup(
+  groups: Group[],
+  idx: number,
+  delta: number
+): Group[] {
+  const to = idx + delta;
+  if (to < 0 || to >= groups.length) return groups;
+  const next = [...groups];
+  [next[idx], next[to]] = [next[to], next[idx]];
+  return next;
+}
+
+export function setGroupMembers(
+  groups: Group[],
+  idx: number,
+  members: string[]
+): Group[] {
+  return groups.map((g, i) => (i === idx ? { ...g, members } : g));
+}
+
+// 다른 그룹에 있던 사람이면 그 그룹에서 빠지고 대상 그룹 끝에 붙음
+export function moveMember(
+  groups: Group[],
+  name: string,
+  toIdx: number
+): Group[] {
+  return groups.map((g, i) => {
+    const rest = g.members.filter((m) => m !== name);
+    return i === toIdx
+      ? { ...g, members: [...rest, name] }
+      : { ...g, members: rest };
+  });
+}
+
+// 줄바꿈/쉼표/세미콜론/탭으로 구분된 이름 목록
+export function parseMemberList(text: string) {
+  return text
+    .split(/\n|\r|,|;|\t/)
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+// 두 그룹 이상(또는 한 그룹에 여러 번) 들어간 이름
+export function duplicateMembers(groups: Group[]) {
+  const seen = new Set<string>();
+  const dup = new Set<string>();
+  for (const g of groups)
+    for (const m of g.members) {
+      if (seen.has(m)) dup.add(m);
+      seen.add(m);
+    }
+  return [...dup];
+}
+
+// 같은 시드로 같은 추첨이 나오는 그룹인지 (그룹/멤버 순서까지, 그룹 이름은 무관)
+export function sameDrawGroups(a: Group[], b: Group[]) {
+  return (
+    a.length === b.length &&
+    a.every(
+      (g, i) =>
+        g.members.length === b[i].members.length &&
+        g.members.every((m, j) => m === b[i].members[j])
+    )
+  );
+}
+
+/**
+ * CSV (이름, 그룹) → 그룹 목록
+ * - 첫 줄이 "이름, 그룹" 형태면 헤더로 보고 건너뜀
+ * - 그룹 순서 = CSV에 처음 등장한 순서
+ * - 이름/그룹이 비었거나 중복된 이름은 제외하고 줄 번호와 함께 보고
+ */
+export function parseGroupsCsv(text: string): {
+  groups: Group[];
+  issues: GroupImportIssue[];
+} {
+  const records = parseCsvRecords(text.trim()).filter((r) =>
+    r.fields.some((f) => f.trim())
+  );
+  const issues: GroupImportIssue[] = [];
+  const groups: Group[] = [];
+  const seen = new Map<string, string>(); // 이름 → 그룹
+
+  const [first] = records;
+  const hasHeader =
+    first &&
+    /이름|name/i.test(first.fields[0] ?? "") &&
+    /그룹|group|조/i.test(first.fields[1] ?? "");
+
+  for (const { line, fields } of hasHeader ? records.slice(1) : records) {
+    const name = (fields[0] ?? "").trim();
+    const groupName = (fields[1] ?? "").trim();
+    if (!name) {
+      issues.push({ line, message: "이름이 비어 있어요." });
+      continue;
+    }
+    if (!groupName) {
+      issues.push({ line, message: `${name}: 그룹이 비어 있어요.` });
+      continue;
+    }
+    const prev = seen.get(name);
+    if (prev !== undefined) {
+      issues.push({
+        line,
+        message: `${name}: 이미 "${prev}"에 있어 제외했어요.`,
+      });
+      continue;
+    }
+    seen.set(name, groupName);
+    let group = groups.find((g) => g.name === groupName);
+    if (!group) {
+      group = { name: groupName, members: [] };
+      groups.push(group);
+    }
+    group.members.push(name);
+  }
+  return { groups, issues };
+}
+
+/* -------------------- 프리셋 (불변) -------------------- */
+// 같은 이름이면 덮어씀
+export function savePreset(
+  presets: GroupPreset[],
+  name: string,
+  groups: Group[],
+  savedAt = new Date().toISOString()
+): GroupPreset[] {
+  const trimmed = name.trim();
+  if (!trimmed) return presets;
+  const preset: GroupPreset = { name: trimmed, groups, savedAt };
+  const idx = presets.findIndex((p) => p.name === trimmed);
+  if (idx < 0) return [...presets, preset];
+  return presets.map((p, i) => (i === idx ? preset : p));
+}
+
+export function removePreset(
+  presets: GroupPreset[],
+  name: string
+): GroupPreset[] {
+  return presets.filter((p) => p.name !== name);
+}
+
+// localStorage 등에서 읽은 값 검증
+export function isGroupList(v: unknown): v is Group[] {
+  return (
+    Array.isArray(v) &&
+    v.every(
+      (g) =>
+        g &&
+        typeof g.name === "string" &&
+        Array.isArray(g.members) &&
+        g.members.every((m: unknown) => typeof m === "string")
+    )
+  );
+}
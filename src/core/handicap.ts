@@ -0,0 +1,15 @@
+/**
+ * 핸디캡 계산 (일반 모드 밸런싱 + 점수판 합계)
+ */
+
+export type HandicapConfig = {
+  enabled: boolean;
+  base: number;
+  percent: number;
+};
+
+// 핸디 = (기준 - 에버) × 비율, 소수점 버림. 기준 이상이면 0.
+export function playerHandicap(p: { avg: number }, cfg: HandicapConfig) {
+  if (!cfg.enabled) return 0;
+  return Math.max(0, Math.floor(((cfg.base - p.avg) * cfg.percent) / 100));
+}
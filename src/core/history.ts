@@ -0,0 +1,59 @@
+import type { Frame } from "./bowling";
+import type { FramePins } from "./pins";
+import { todayISO } from "./roster";
+
+/**
+ * 끝난 게임 기록 (프레임 단위)
+ * - 점수판(/score)에서 10프까지 다 입력하면 쌓이고, 다시 지우면 빠짐
+ * - id는 "공유 코드/게임/이름" – 같은 점수판에서 고쳐 쓰면 덮어씀
+ */
+
+export type PlayedGame = {
+  id: string;
+  player: string;
+  date: string; // YYYY-MM-DD (처음 기록한 날)
+  frames: Frame[]; // 10프
+  pins?: (FramePins | null)[]; // 프레임별 핀 기록 (있을 때만)
+  score: number;
+};
+
+export function isPlayedGame(x: unknown): x is PlayedGame {
+  const g = x as PlayedGame;
+  return (
+    !!g &&
+    typeof g.id === "string" &&
+    typeof g.player === "string" &&
+    typeof g.date === "string" &&
+    typeof g.score === "number" &&
+    Array.isArray(g.frames) &&
+    g.frames.length === 10 &&
+    g.frames.every((f) => Array.isArray(f) && f.every(Number.isInteger))
+  );
+}
+
+// 같은 id가 있으면 날짜는 그대로 두고 내용만 바꿈
+export function recordGame(
+  history: PlayedGame[],
+  game: Omit<PlayedGame, "date">,
+  date = todayISO()
+): PlayedGame[] {
+  const prev = history.find((g) => g.id === game.id);
+  if (!prev) return [...history, { ...game, date }];
+  return history.map((g) => (g.id === game.id ? { ...game, date: g.date } : g));
+}
+
+export function forgetGame(history: PlayedGame[], id: string): PlayedGame[] {
+  return history.some((g) => g.id === id)
+    ? history.filter((g) => g.id !== id)
+    : history;
+}
+
+// 기록이 있는 선수 이름 (게임 수 많은 순)
+export function historyPlayers(history: PlayedGame[]) {
+  const counts = new Map<string, number>();
+  for (const g of history)
+    counts.set(g.player, (counts.get(g.player) ?? 0) + 1);
+  return [...counts]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([name, games]) => ({ name, games }));
+}
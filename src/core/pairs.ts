@@ -0,0 +1,41 @@
+/**
+ * 같은 팀 경험(페어) 집계 – 랜덤 모드/일반 모드 세션에서 공용
+ * - 페어 키는 이름 두 개를 정렬해 "a|b" 형태로 만든다.
+ */
+
+export type TeamAssignment = string[][]; // teams[teamIdx] = [names]
+
+export function pairKey(a: string, b: string) {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+export function buildPairs(teams: TeamAssignment): Set<string> {
+  const pairs = new Set<string>();
+  for (const team of teams) {
+    for (let i = 0; i < team.length; i++) {
+      for (let j = i + 1; j < team.length; j++) {
+        pairs.add(pairKey(team[i], team[j]));
+      }
+    }
+  }
+  return pairs;
+}
+
+export function countPairRepeats(
+  prevPairs: Set<string>,
+  currentTeams: TeamAssignment
+) {
+  const now = buildPairs(currentTeams);
+  let repeats = 0;
+  for (const p of now) if (prevPairs.has(p)) repeats++;
+  return { repeats, pairSet: new Set([...prevPairs, ...now]) };
+}
+
+// 여러 라운드에 걸쳐 각 페어가 같은 팀이 된 횟수
+export function pairMeetings(rounds: TeamAssignment[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const teams of rounds) {
+    for (const p of buildPairs(teams)) counts.set(p, (counts.get(p) ?? 0) + 1);
+  }
+  return counts;
+}
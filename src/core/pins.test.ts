@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  ALL_PINS,
+  completePins,
+  frameLeave,
+  isSplit,
+  leaveStats,
+  pinsMismatch,
+  standingBefore,
+  type PinMask,
+} from "./pins";
+
+const mask = (...pins: number[]): PinMask =>
+  pins.reduce((m, p) => m | (1 << (p - 1)), 0);
+
+describe("isSplit", () => {
+  it("헤드핀이 없고 떨어진 핀이 남으면 스플릿", () => {
+    expect(isSplit(mask(7, 10))).toBe(true);
+    expect(isSplit(mask(4, 6))).toBe(true);
+    expect(isSplit(mask(3, 10))).toBe(true);
+    expect(isSplit(mask(4, 7, 10))).toBe(true);
+    // 앞이나 사이의 핀이 쓰러졌으면 나란히 서 있어도 스플릿
+    expect(isSplit(mask(8, 9))).toBe(true);
+    expect(isSplit(mask(7, 8))).toBe(true);
+    expect(isSplit(mask(9, 10))).toBe(true);
+    expect(isSplit(mask(2, 8))).toBe(true);
+    expect(isSplit(mask(3, 9))).toBe(true);
+    expect(isSplit(mask(4, 5))).toBe(true);
+  });
+
+  it("대각선으로 이어져 있거나 헤드핀이 남았거나 한 개면 아님", () => {
+    expect(isSplit(mask(3, 6, 10))).toBe(false);
+    expect(isSplit(mask(2, 4, 5))).toBe(false);
+    expect(isSplit(mask(6, 10))).toBe(false);
+    expect(isSplit(mask(4, 8))).toBe(false);
+    expect(isSplit(mask(1, 7))).toBe(false);
+    expect(isSplit(mask(1, 10))).toBe(false);
+    expect(isSplit(mask(10))).toBe(false);
+    expect(isSplit(0)).toBe(false);
+  });
+});
+
+describe("frameLeave", () => {
+  it("첫 구 뒤 남은 핀, 핀 수가 프레임과 안 맞으면 무시", () => {
+    expect(frameLeave([8, 1], [mask(7, 10)])).toBe(mask(7, 10));
+    expect(frameLeave([7, 3], [mask(7, 10)])).toBe(null);
+    expect(frameLeave([10], [0])).toBe(null);
+    expect(frameLeave([8, 1], null)).toBe(null);
+    expect(frameLeave([8, 1], [null])).toBe(null);
+  });
+});
+
+describe("leaveStats", () => {
+  it("남은 핀별 횟수/처리, 많은 순", () => {
+    const stats = leaveStats([
+      {
+        frames: [[8, 2], [8, 1], [9, 1], [7, 3], [10]],
+        pins: [[mask(7, 10)], [mask(7, 10)], [mask(10)], [mask(10)], [0]],
+      },
+      { frames: [[9, 0]], pins: [[mask(10)]] },
+      {
+        frames: [
+          [8, 2],
+          [8, 0],
+          [8, 1],
+        ],
+        pins: [[mask(8, 9)], [mask(2, 8)], [mask(6, 10)]],
+      },
+      { frames: [[9, 1]] }, // 핀 기록 없음
+    ]);
+    expect(stats.map((s) => [s.name, s.split, s.count, s.converted])).toEqual([
+      ["10", false, 2, 1],
+      ["7-10", true, 2, 1],
+      ["2-8", true, 1, 0],
+      ["8-9", true, 1, 1],
+      ["6-10", false, 1, 0],
+    ]);
+  });
+});
+
+describe("투구별 마스크", () => {
+  it("직전에 서 있던 핀 (10프는 스트라이크/스페어 뒤 새 랙)", () => {
+    expect(standingBefore([8, 1], [], 0)).toBe(ALL_PINS);
+    expect(standingBefore([8, 1], [mask(7, 10)], 1)).toBe(mask(7, 10));
+    expect(standingBefore([8, 1], [null], 1)).toBe(null);
+    expect(standingBefore([10, 7, 3], [null], 1)).toBe(ALL_PINS);
+    expect(standingBefore([10, 7, 3], [null, mask(4, 6, 10)], 2)).toBe(
+      mask(4, 6, 10)
+    );
+    expect(standingBefore([0, 9], [null], 1)).toBe(ALL_PINS);
+  });
+
+  it("핀 수로 정해지는 투구는 자동으로 채움", () => {
+    expect(completePins([8, 2], [mask(7, 10)])).toEqual([mask(7, 10), 0]);
+    expect(completePins([8, 1], [mask(7, 10)])).toEqual([mask(7, 10), null]);
+    expect(completePins([8, 0], [mask(7, 10)])).toEqual([
+      mask(7, 10),
+      mask(7, 10),
+    ]);
+    expect(completePins([10, 7, 3], [])).toEqual([0, null, null]);
+    expect(completePins([10, 7, 3], [null, mask(4, 6, 10)])).toEqual([
+      0,
+      mask(4, 6, 10),
+      0,
+    ]);
+  });
+
+  it("핀 수가 안 맞거나 쓰러진 핀이 다시 서면 그 투구", () => {
+    expect(pinsMismatch([8, 1], [mask(7, 10), mask(7)])).toBe(-1);
+    expect(pinsMismatch([8, 1], [mask(7, 10), mask(7, 10)])).toBe(1);
+    expect(pinsMismatch([8, 1], [mask(7, 10), mask(1)])).toBe(1);
+    expect(pinsMismatch([7, 1], [mask(7, 10)])).toBe(0);
+    expect(pinsMismatch([10], [0, 0])).toBe(1);
+  });
+});
@@ -0,0 +1,158 @@
+import type { Frame } from "./bowling";
+
+/**
+ * 핀 단위 기록 – 공을 던진 뒤 서 있는 핀을 비트로 (비트 k = k+1번 핀)
+ * - 프레임 기록(Frame)은 그대로 두고, 프레임마다 투구별 마스크를 옆에 붙여 둠
+ *   (점수판 /score에서만 입력, 게임 기록(core/history)의 pins로 저장 – 목표 역산 화면은 핀 기록 없음)
+ * - 투구마다 마스크 하나: 핀 수로 정해지는 투구(스트라이크/스페어/거터)는 자동으로 채움
+ * - 스플릿: 헤드핀(1번)이 쓰러졌고, 남은 핀들이 서로 이어져 있지 않음
+ *   (랙에서 대각선으로 바로 붙은 핀만 이어진 것으로 봄 – 8-9, 2-8, 7-8도 스플릿)
+ */
+
+export type PinMask = number;
+export type FramePins = (PinMask | null)[]; // 투구별, null = 기록 안 함
+
+export const ALL_PINS: PinMask = 0x3ff;
+
+// 볼러 쪽에서 본 배치 (맨 뒷줄부터)
+export const PIN_ROWS = [[7, 8, 9, 10], [4, 5, 6], [2, 3], [1]];
+
+// 핀 위치: [줄(앞에서 0), 가로 좌표]
+const POS: Record<number, [number, number]> = {
+  1: [0, 0],
+  2: [1, -1],
+  3: [1, 1],
+  4: [2, -2],
+  5: [2, 0],
+  6: [2, 2],
+  7: [3, -3],
+  8: [3, -1],
+  9: [3, 1],
+  10: [3, 3],
+};
+
+export const hasPin = (mask: PinMask, pin: number) =>
+  (mask & (1 << (pin - 1))) !== 0;
+
+export const togglePin = (mask: PinMask, pin: number): PinMask =>
+  mask ^ (1 << (pin - 1));
+
+export function pinList(mask: PinMask) {
+  return Array.from({ length: 10 }, (_, k) => k + 1).filter((p) =>
+    hasPin(mask, p)
+  );
+}
+
+export const pinCount = (mask: PinMask) => pinList(mask).length;
+
+export function leaveName(mask: PinMask) {
+  return pinList(mask).join("-");
+}
+
+// 대각선 이웃 (바로 앞/뒤 줄에서 한 칸 옆)
+function adjacent(a: number, b: number) {
+  const [ra, xa] = POS[a];
+  const [rb, xb] = POS[b];
+  return Math.abs(ra - rb) === 1 && Math.abs(xa - xb) === 1;
+}
+
+export function isSplit(leave: PinMask) {
+  const pins = pinList(leave);
+  if (pins.length < 2 || hasPin(leave, 1)) return false;
+  const seen = new Set([pins[0]]);
+  const stack = [pins[0]];
+  while (stack.length) {
+    const p = stack.pop()!;
+    for (const q of pins)
+      if (!seen.has(q) && adjacent(p, q)) {
+        seen.add(q);
+        stack.push(q);
+      }
+  }
+  return seen.size < pins.length;
+}
+
+/* -------------------- 투구별 마스크 -------------------- */
+// ball번째 투구 직전에 서 있는 핀 (앞 투구 기록으로 알 수 없으면 null)
+export function standingBefore(
+  f: Frame,
+  pins: FramePins,
+  ball: number
+): PinMask | null {
+  let standing: PinMask | null = ALL_PINS;
+  for (let j = 0; j < ball; j++) {
+    const m = pins[j] ?? null;
+    if (m !== null) standing = m;
+    else if (standing !== null && pinCount(standing) === f[j]) standing = 0;
+    else if (f[j] !== 0) standing = null;
+    if (standing === 0) standing = ALL_PINS; // 10프 스트라이크/스페어 뒤 새 랙
+  }
+  return standing;
+}
+
+// 기록한 마스크가 프레임 핀 수와 어긋나는 첫 투구 (없으면 -1)
+export function pinsMismatch(f: Frame, pins: FramePins) {
+  for (let j = 0; j < pins.length; j++) {
+    const m = pins[j] ?? null;
+    if (m === null) continue;
+    if (j >= f.length) return j;
+    const before = standingBefore(f, pins, j);
+    if (before === null) continue;
+    if ((m & ~before) !== 0 || pinCount(before) - pinCount(m) !== f[j])
+      return j;
+  }
+  return -1;
+}
+
+// 핀 수로 정해지는 투구의 마스크를 채움 (다 쓰러뜨림 → 0, 0핀 → 직전 그대로)
+export function completePins(f: Frame, pins: FramePins): FramePins {
+  const out: FramePins = [];
+  for (let j = 0; j < f.length; j++) {
+    let m = pins[j] ?? null;
+    const before = m === null ? standingBefore(f, out, j) : null;
+    if (before !== null)
+      m = pinCount(before) === f[j] ? 0 : f[j] === 0 ? before : null;
+    out.push(m);
+  }
+  return out;
+}
+
+// 첫 구 뒤 남은 핀 (핀 기록이 프레임 점수와 맞을 때만)
+export function frameLeave(f: Frame, pins: FramePins | null | undefined) {
+  const leave = pins?.[0];
+  if (leave === null || leave === undefined || f[0] === 10) return null;
+  return pinCount(leave) === 10 - f[0] ? leave : null;
+}
+
+/* -------------------- 남은 핀 통계 -------------------- */
+export type LeaveStat = {
+  leave: PinMask;
+  name: string; // "7-10"
+  split: boolean;
+  count: number; // 남은 횟수
+  converted: number; // 그중 스페어 처리
+};
+
+export function leaveStats(
+  games: { frames: Frame[]; pins?: (FramePins | null)[] }[]
+): LeaveStat[] {
+  const stats = new Map<PinMask, LeaveStat>();
+  for (const g of games)
+    g.frames.forEach((f, i) => {
+      const leave = frameLeave(f, g.pins?.[i]);
+      if (leave === null) return;
+      const s = stats.get(leave) ?? {
+        leave,
+        name: leaveName(leave),
+        split: isSplit(leave),
+        count: 0,
+        converted: 0,
+      };
+      s.count++;
+      if (f[0] + (f[1] ?? 0) === 10) s.converted++;
+      stats.set(leave, s);
+    });
+  return [...stats.values()].sort(
+    (a, b) => b.count - a.count || a.leave - b.leave
+  );
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { parsePlayers } from "./players";
+
+describe("parsePlayers", () => {
+  it("빈 입력", () => {
+    expect(parsePlayers("  \n ")).toEqual({ players: [], issues: [] });
+  });
+
+  it("헤더가 있는 CSV", () => {
+    const { players, issues } = parsePlayers(
+      "이름,에버\n김철수,155\n이영희,170\n"
+    );
+    expect(players).toEqual([
+      { name: "김철수", avg: 155 },
+      { name: "이영희", avg: 170 },
+    ]);
+    expect(issues).toEqual([]);
+  });
+
+  it("공백 구분 (이름에 공백 허용)", () => {
+    const { players } = parsePlayers("Kim Chul 155\n박민수 142점");
+    expect(players).toEqual([
+      { name: "Kim Chul", avg: 155 },
+      { name: "박민수", avg: 142 },
+    ]);
+  });
+
+  it("탭 구분이면 소수점 쉼표 허용", () => {
+    expect(parsePlayers("김\t155,5").players).toEqual([
+      { name: "김", avg: 155.5 },
+    ]);
+  });
+
+  it("잘못된 에버와 범위 밖 에버는 줄 번호와 함께 제외", () => {
+    const { players, issues } = parsePlayers("가,150\n나,abc\n다,301\n라,200");
+    expect(players.map((p) => p.name)).toEqual(["가", "라"]);
+    expect(issues.map((i) => [i.line, i.level])).toEqual([
+      [2, "error"],
+      [3, "error"],
+    ]);
+  });
+
+  it("숫자가 여러 개면 골라 쓰지 않고 알림", () => {
+    const spaced = parsePlayers("김 1 5 5\n이 160");
+    expect(spaced.players).toEqual([{ name: "이", avg: 160 }]);
+    expect(spaced.issues.map((i) => [i.line, i.level])).toEqual([[1, "error"]]);
+
+    const csv = parsePlayers("김,155,170\n이,160,메모");
+    expect(csv.players).toEqual([
+      { name: "김", avg: 155 },
+      { name: "이", avg: 160 },
+    ]);
+    expect(csv.issues.map((i) => [i.line, i.level])).toEqual([[1, "warning"]]);
+  });
+
+  it("중복 이름과 에버 없음은 경고, 에버는 평균으로 대체", () => {
+    const { players, issues } = parsePlayers("가,150\n나\n가,170");
+    expect(players).toEqual([
+      { name: "가", avg: 150 },
+      { name: "나", avg: 160 },
+      { name: "가", avg: 170 },
+    ]);
+    expect(issues.map((i) => [i.line, i.level])).toEqual([
+      [2, "warning"],
+      [3, "warning"],
+    ]);
+  });
+});
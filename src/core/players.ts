@@ -0,0 +1,160 @@
+import type { Player } from "./teams";
+import { detectDelimiter, parseCsvRecords, type Delimiter } from "./csv";
+
+/**
+ * 명단 텍스트 파싱 (일반 모드 직접 입력/시트)
+ */
+
+export type ParseIssue = {
+  line: number; // 입력 텍스트의 줄 번호 (1부터)
+  level: "error" | "warning";
+  message: string;
+};
+
+const AVG_MIN = 0;
+const AVG_MAX = 300;
+
+// "155", "155.5", "155점", 세미콜론/탭 구분일 때는 "155,5"도 허용
+function parseAvgToken(tok: string, delimiter: Delimiter): number | null {
+  let t = tok.trim().replace(/점$/, "").trim();
+  if (delimiter !== ",") t = t.replace(/^(\d+),(\d+)$/, "$1.$2");
+  if (!/^\d+(\.\d+)?$/.test(t)) return null;
+  return Number(t);
+}
+
+/**
+ * 명단 텍스트 → 선수 목록 + 줄 단위 진단
+ * - CSV/TSV/세미콜론 자동 감지, 따옴표/BOM/엑셀 붙여넣기 처리
+ * - 구분자가 없는 줄은 "이름 에버" (마지막 토큰이 에버)로 해석
+ * - 오류(제외): 이름 없음, 숫자가 아닌 에버, 범위(0~300) 밖 에버,
+ *   공백 구분인데 끝에 숫자가 여러 개 ("김 1 5 5" – 어느 게 에버인지 모름)
+ * - 경고(포함): 중복 이름, 에버 없음(다른 선수 평균으로 대체), 에버 열 뒤 숫자 열
+ */
+export function parsePlayers(input: string): {
+  players: Player[];
+  issues: ParseIssue[];
+} {
+  if (!input?.trim()) return { players: [], issues: [] };
+
+  const delimiter = detectDelimiter(input);
+  const records = parseCsvRecords(input, delimiter).filter((r) =>
+    r.fields.some((f) => f.trim())
+  );
+  if (records.length === 0) return { players: [], issues: [] };
+
+  // 1) 헤더 자동 감지 (첫 줄에 '이름'과 '에버'가 있으면 스킵)
+  const first = records[0].fields.join(" ");
+  const hasHeader =
+    /이름|name/i.test(first) && /에버|평균|avg|average/i.test(first);
+  const data = hasHeader ? records.slice(1) : records;
+
+  const issues: ParseIssue[] = [];
+  const parsed: { line: number; name: string; avg: number | null }[] = [];
+  const seen = new Map<string, number>();
+
+  for (const { line, fields } of data) {
+    let name: string;
+    let avgTok: string;
+    if (fields.length >= 2) {
+      name = fields[0].trim();
+      avgTok = fields[1];
+      const extra = fields
+        .slice(2)
+        .filter((f) => parseAvgToken(f, delimiter) !== null);
+      if (name && extra.length > 0)
+        issues.push({
+          line,
+          level: "warning",
+          message: `${name}: 에버 열 뒤의 숫자 ${extra
+            .map((f) => f.trim())
+            .join(", ")}는 무시하고 ${avgTok.trim()} 사용`,
+        });
+    } else {
+      // 공백 구분 보조
+      const parts = fields[0].trim().split(/\s+/);
+      const last = parts.at(-1) ?? "";
+      let numeric = 0;
+      while (
+        numeric < parts.length &&
+        parseAvgToken(parts[parts.length - 1 - numeric], delimiter) !== null
+      )
+        numeric++;
+      if (parts.length >= 3 && numeric >= 2) {
+        issues.push({
+          line,
+          level: "error",
+          message: `"${parts.join(
+            " "
+          )}": 숫자가 여러 개라 어느 것이 에버인지 알 수 없어 제외`,
+        });
+        continue;
+      }
+      if (parts.length >= 2 && parseAvgToken(last, delimiter) !== null) {
+        name = parts.slice(0, -1).join(" ");
+        avgTok = last;
+      } else {
+        name = parts.join(" ");
+        avgTok = "";
+      }
+    }
+
+    if (!name) {
+      issues.push({ line, level: "error", message: "이름이 비어 있어 제외" });
+      continue;
+    }
+
+    let avg: number | null = null;
+    if (avgTok.trim()) {
+      avg = parseAvgToken(avgTok, delimiter);
+      if (avg === null) {
+        issues.push({
+          line,
+          level: "error",
+          message: `${name}: 에버 "${avgTok.trim()}"를 숫자로 읽을 수 없어 제외`,
+        });
+        continue;
+      }
+      if (avg < AVG_MIN || avg > AVG_MAX) {
+        issues.push({
+          line,
+          level: "error",
+          message: `${name}: 에버 ${avg}가 ${AVG_MIN}~${AVG_MAX} 범위를 벗어나 제외`,
+        });
+        continue;
+      }
+    }
+
+    const dup = seen.get(name);
+    if (dup !== undefined)
+      issues.push({
+        line,
+        level: "warning",
+        message: `${name}: ${dup}행과 이름이 같음`,
+      });
+    else seen.set(name, line);
+
+    parsed.push({ line, name, avg });
+  }
+
+  // 에버 없는 선수는 나머지 선수 평균으로 대체 (0으로 두면 밸런스가 깨짐)
+  const known = parsed.filter((p) => p.avg !== null);
+  const fallback = known.length
+    ? Math.round(
+        (known.reduce((s, p) => s + (p.avg ?? 0), 0) / known.length) * 10
+      ) / 10
+    : 0;
+  for (const p of parsed) {
+    if (p.avg !== null) continue;
+    issues.push({
+      line: p.line,
+      level: "warning",
+      message: `${p.name}: 에버가 없어 평균 ${fallback}으로 계산`,
+    });
+  }
+
+  issues.sort((a, b) => a.line - b.line);
+  return {
+    players: parsed.map((p) => ({ name: p.name, avg: p.avg ?? fallback })),
+    issues,
+  };
+}
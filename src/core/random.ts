@@ -0,0 +1,47 @@
+/**
+ * 시드 고정 난수 (재현 가능한 추첨)
+ * - 문자열 시드 → 32bit 해시(xmur3) → mulberry32
+ * - 같은 시드 + 같은 입력이면 항상 같은 결과
+ */
+
+export type Rng = () => number; // [0, 1)
+
+function hashSeed(seed: string): number {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^= h >>> 16) >>> 0;
+}
+
+export function createRng(seed: string): Rng {
+  let a = hashSeed(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// 사람이 읽고 다시 입력하기 쉬운 6자리 시드 (혼동되는 0/o, 1/l 제외)
+const SEED_CHARS = "23456789abcdefghijkmnpqrstuvwxyz";
+
+export function randomSeed(length = 6): string {
+  let s = "";
+  for (let i = 0; i < length; i++)
+    s += SEED_CHARS[Math.floor(Math.random() * SEED_CHARS.length)];
+  return s;
+}
+
+export function shuffle<T>(arr: T[], rng: Rng): T[] {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
@@ -0,0 +1,72 @@
+import type { Frame } from "./bowling";
+
+/**
+ * 손으로 정한 현실성 가중치 (기록된 게임이 없을 때 솔버 순위 기준)
+ * - 9/ 우대, 스트라이크/연속 X 감점, 첫구 거터 감점 등
+ * - 프레임 분류 헬퍼(스트라이크/스페어/오픈)도 여기
+ */
+
+export const WEIGHTS = {
+  spareBase: 5,
+  spareFirstBallMul: 2,
+  strikePenalty: -3,
+  consecutiveStrikePenalty: -4,
+  openFirstBallMul: 1,
+  openSecondBallMul: 0.5,
+  gutterFirstPenalty: -8,
+  tenthNiceBonus: 2,
+  tripleXPenalty: -2,
+};
+
+export function isStrikeFrame(f: Frame) {
+  return f.length === 1 && f[0] === 10;
+}
+export function isSpareFrame(f: Frame) {
+  return f.length === 2 && f[0] + f[1] === 10 && f[0] !== 10;
+}
+export function isOpenFrame(f: Frame) {
+  return f.length === 2 && f[0] + f[1] < 10;
+}
+export function isTenthLikeStrike(f: Frame) {
+  return f.length === 3 && f[0] === 10;
+}
+export function isTenthLikeSpare(f: Frame) {
+  return f.length === 3 && f[0] + f[1] === 10 && f[0] !== 10;
+}
+
+// 프레임 하나의 현실성 점수 – 솔루션 순위는 10프 합이 큰 순서
+// (고정 프레임은 모든 솔루션에 같은 값이라 순위에 영향 없음)
+export function frameRealism(
+  f: Frame,
+  idx: number,
+  afterStrike: boolean
+): number {
+  if (idx === 9) {
+    if (isTenthLikeStrike(f)) {
+      const [, b, c] = f;
+      if (b === 10 && c === 10) return WEIGHTS.tripleXPenalty;
+      if (b !== 10 && b + c === 10) return WEIGHTS.tenthNiceBonus;
+      return 0;
+    }
+    if (isTenthLikeSpare(f))
+      return WEIGHTS.spareBase + f[0] * WEIGHTS.spareFirstBallMul;
+  }
+  if (isStrikeFrame(f)) {
+    // 연속 X는 두 번 감점 (기존 8·9프 규칙 그대로)
+    return (
+      WEIGHTS.strikePenalty +
+      (afterStrike ? 2 * WEIGHTS.consecutiveStrikePenalty : 0)
+    );
+  }
+  if (isSpareFrame(f))
+    return WEIGHTS.spareBase + f[0] * WEIGHTS.spareFirstBallMul;
+  if (isOpenFrame(f)) {
+    const [a, b] = f;
+    return (
+      (a === 0 ? WEIGHTS.gutterFirstPenalty : 0) +
+      a * WEIGHTS.openFirstBallMul +
+      b * WEIGHTS.openSecondBallMul
+    );
+  }
+  return 0;
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import type { PlayedGame } from "./history";
+import {
+  applyRecordedAverages,
+  defaultRoster,
+  playerAverage,
+  syncScoreHistory,
+  type GameRecord,
+  type Roster,
+  type RosterPlayer,
+  type RosterSettings,
+} from "./roster";
+
+const settings: RosterSettings = {
+  ...defaultRoster().settings,
+  window: "last",
+  lastN: 3,
+  minGames: 3,
+  defaultAvg: 150,
+};
+
+const games = (...scores: number[]): GameRecord[] =>
+  scores.map((score, i) => ({
+    id: `g${i}`,
+    date: `2024-01-${String(i + 1).padStart(2, "0")}`,
+    score,
+  }));
+
+const player = (
+  name: string,
+  baseAvg: number,
+  gs: GameRecord[] = []
+): RosterPlayer => ({ id: name, name, baseAvg, attending: true, games: gs });
+
+const played = (id: string, name: string, score: number): PlayedGame => ({
+  id,
+  player: name,
+  date: "2024-02-01",
+  frames: [],
+  score,
+});
+
+describe("playerAverage", () => {
+  it("기록이 충분하면 최근 N게임 평균", () => {
+    expect(
+      playerAverage(player("김", 100, games(100, 150, 160, 170)), settings)
+    ).toEqual({ avg: 160, games: 3, provisional: false });
+  });
+
+  it("기준 기간에 기록이 모자라면 최근 minGames게임", () => {
+    const s: RosterSettings = {
+      ...settings,
+      window: "season",
+      seasonStart: "2024-01-04",
+    };
+    expect(
+      playerAverage(player("김", 0, games(120, 150, 180, 210)), s)
+    ).toEqual({ avg: 180, games: 3, provisional: false });
+  });
+
+  it("기록이 모자라면 baseAvg로 채운 임시 에버", () => {
+    expect(playerAverage(player("김", 150, games(180)), settings)).toEqual({
+      avg: 160,
+      games: 1,
+      provisional: true,
+    });
+  });
+
+  it("baseAvg가 없으면 친 게임 평균", () => {
+    expect(playerAverage(player("김", 0, games(170, 190)), settings)).toEqual({
+      avg: 180,
+      games: 2,
+      provisional: true,
+    });
+  });
+
+  it("기록이 없으면 baseAvg, 그것도 없으면 기본 에버", () => {
+    expect(playerAverage(player("김", 140), settings).avg).toBe(140);
+    expect(playerAverage(player("김", 0), settings)).toEqual({
+      avg: 150,
+      games: 0,
+      provisional: true,
+    });
+  });
+});
+
+describe("applyRecordedAverages", () => {
+  const roster: Roster = {
+    settings,
+    players: [
+      player("김", 0, games(180, 190, 200)),
+      player("이", 0, games(200)),
+      player("박", 0),
+    ],
+  };
+
+  it("기록 에버로 바꾸고, 로스터에서 기록이 모자라거나 없는 선수는 임시", () => {
+    const { players, updates, unlisted } = applyRecordedAverages(
+      [
+        { name: "김", avg: 150 },
+        { name: "이", avg: 170 },
+        { name: "박", avg: 160 },
+        { name: "최", avg: 140 },
+      ],
+      roster
+    );
+    expect(players).toEqual([
+      { name: "김", avg: 190 },
+      { name: "이", avg: 180 },
+      { name: "박", avg: 160 },
+      { name: "최", avg: 140 },
+    ]);
+    expect(updates).toEqual([
+      { name: "김", from: 150, avg: 190, games: 3, provisional: false },
+      { name: "이", from: 170, avg: 180, games: 1, provisional: true },
+      { name: "박", from: 160, avg: 160, games: 0, provisional: true },
+    ]);
+    expect(unlisted).toEqual(["최"]);
+  });
+
+  it("로스터에 없는 선수는 입력 에버 그대로, 임시로 보지 않음", () => {
+    const typed = [
+      { name: "정", avg: 175 },
+      { name: "한", avg: 0 },
+    ];
+    expect(applyRecordedAverages(typed, { settings, players: [] })).toEqual({
+      players: typed,
+      updates: [],
+      unlisted: ["정", "한"],
+    });
+  });
+});
+
+describe("syncScoreHistory", () => {
+  const base: Roster = {
+    settings,
+    players: [player("김", 150, games(170)), player("이", 150)],
+  };
+
+  it("점수판 게임을 이름이 같은 선수 기록으로 추가", () => {
+    const next = syncScoreHistory(base, [
+      played("h1", "김", 200),
+      played("h2", "최", 180),
+    ]);
+    expect(next.players[0].games.map((g) => [g.score, g.historyId])).toEqual([
+      [170, undefined],
+      [200, "h1"],
+    ]);
+    expect(next.players[1]).toBe(base.players[1]);
+  });
+
+  it("바뀐 점수는 고치고 지운 게임은 빼며 직접 입력한 기록은 그대로", () => {
+    const once = syncScoreHistory(base, [
+      played("h1", "김", 200),
+      played("h2", "김", 210),
+    ]);
+    const next = syncScoreHistory(once, [played("h2", "김", 220)]);
+    expect(next.players[0].games.map((g) => [g.score, g.historyId])).toEqual([
+      [170, undefined],
+      [220, "h2"],
+    ]);
+  });
+
+  it("바뀐 게 없으면 같은 로스터", () => {
+    const history = [played("h1", "김", 200)];
+    const once = syncScoreHistory(base, history);
+    expect(syncScoreHistory(once, history)).toBe(once);
+    expect(syncScoreHistory(base, [])).toBe(base);
+  });
+});
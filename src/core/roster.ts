@@ -0,0 +1,235 @@
+import type { PlayedGame } from "./history";
+import type { Player } from "./teams";
+
+/**
+ * 로스터(회원 명단) + 게임 점수 기록
+ * - 에버는 기록된 점수에서 자동 계산 (최근 N게임 / 시즌 / 전체)
+ * - 기록이 최소 게임 수보다 적으면 임시 에버:
+ *   처음 입력한 에버(baseAvg)가 있으면 모자란 게임 수만큼 baseAvg로 채워 평균, 없으면 친 게임 평균
+ * - 기록도 baseAvg도 없는 새 선수는 기본 에버(defaultAvg)
+ * - 점수판에서 끝낸 게임(core/history)은 이름이 같은 선수 기록으로 자동 반영
+ */
+
+export type GameRecord = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  score: number; // 0~300
+  historyId?: string; // 점수판 게임 기록에서 가져온 경우 그 id
+};
+
+export type RosterPlayer = {
+  id: string;
+  name: string;
+  baseAvg: number; // 기록이 모자랄 때 쓰는 에버 (0 = 모름)
+  attending: boolean; // 이번 모임 참석 여부
+  games: GameRecord[];
+};
+
+export type AvgWindow = "last" | "season" | "all";
+
+export type RosterSettings = {
+  window: AvgWindow;
+  lastN: number; // window = "last"일 때 최근 몇 게임
+  seasonStart: string; // window = "season"일 때 시작일 (YYYY-MM-DD)
+  minGames: number; // 이보다 기록이 적으면 임시 에버
+  defaultAvg: number; // 기록도 baseAvg도 없는 새 선수
+};
+
+export type Roster = {
+  players: RosterPlayer[];
+  settings: RosterSettings;
+};
+
+export type PlayerAverage = {
+  avg: number;
+  games: number; // 계산에 쓴 게임 수 (0이면 baseAvg/defaultAvg)
+  provisional: boolean; // 기록이 minGames보다 적음
+};
+
+export function todayISO(d = new Date()) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function defaultRoster(): Roster {
+  return {
+    players: [],
+    settings: {
+      window: "last",
+      lastN: 12,
+      seasonStart: `${new Date().getFullYear()}-01-01`,
+      minGames: 3,
+      defaultAvg: 150,
+    },
+  };
+}
+
+export function newId() {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+// 날짜 오름차순 (같은 날짜는 입력 순서 유지)
+export function sortedGames(p: RosterPlayer) {
+  return [...p.games].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function windowGames(p: RosterPlayer, s: RosterSettings) {
+  const games = sortedGames(p);
+  if (s.window === "last") return games.slice(-Math.max(1, s.lastN));
+  if (s.window === "season")
+    return games.filter((g) => g.date >= s.seasonStart);
+  return games;
+}
+
+const scoreSum = (games: GameRecord[]) =>
+  games.reduce((acc, g) => acc + g.score, 0);
+
+export function playerAverage(
+  p: RosterPlayer,
+  s: RosterSettings
+): PlayerAverage {
+  const all = sortedGames(p);
+  const min = Math.max(1, s.minGames);
+  if (all.length >= min) {
+    // 기준 기간에 기록이 모자라면 (예: 시즌 초) 최근 minGames게임
+    const inWindow = windowGames(p, s);
+    const games = inWindow.length >= min ? inWindow : all.slice(-min);
+    return {
+      avg: scoreSum(games) / games.length,
+      games: games.length,
+      provisional: false,
+    };
+  }
+  if (all.length === 0)
+    return {
+      avg: p.baseAvg > 0 ? p.baseAvg : s.defaultAvg,
+      games: 0,
+      provisional: true,
+    };
+  const avg =
+    p.baseAvg > 0
+      ? (scoreSum(all) + p.baseAvg * (min - all.length)) / min
+      : scoreSum(all) / all.length;
+  return { avg, games: all.length, provisional: true };
+}
+
+/* -------------------- 기록 에버 적용 -------------------- */
+export type AverageUpdate = PlayerAverage & {
+  name: string;
+  from: number; // 입력/시트 에버
+};
+
+/**
+ * 직접 입력/시트 명단의 에버를 로스터 기록 에버로 바꿈
+ * - 입력한 에버는 그 선수의 baseAvg로 봄 (임시 에버 계산에 씀)
+ * - 로스터에 있으면 기록이 minGames게임 미만(없음 포함)일 때 임시
+ * - 로스터에 없는 선수는 입력 에버 그대로 두고 unlisted로 따로 알려 줌 (임시 아님)
+ */
+export function applyRecordedAverages(
+  players: Player[],
+  r: Roster
+): { players: Player[]; updates: AverageUpdate[]; unlisted: string[] } {
+  const byName = new Map(r.players.map((p) => [p.name, p]));
+  const updates: AverageUpdate[] = [];
+  const unlisted: string[] = [];
+  const next = players.map((pl) => {
+    const rp = byName.get(pl.name);
+    if (!rp) {
+      unlisted.push(pl.name);
+      return pl;
+    }
+    const avg = playerAverage({ ...rp, baseAvg: pl.avg }, r.settings);
+    updates.push({ ...avg, name: pl.name, from: pl.avg });
+    return { ...pl, avg: avg.avg };
+  });
+  return { players: next, updates, unlisted };
+}
+
+/* -------------------- 갱신 헬퍼 (불변) -------------------- */
+export function addPlayer(r: Roster, name: string, baseAvg: number): Roster {
+  const trimmed = name.trim();
+  if (!trimmed || r.players.some((p) => p.name === trimmed)) return r;
+  const player: RosterPlayer = {
+    id: newId(),
+    name: trimmed,
+    baseAvg,
+    attending: true,
+    games: [],
+  };
+  return { ...r, players: [...r.players, player] };
+}
+
+export function updatePlayer(
+  r: Roster,
+  id: string,
+  patch: Partial<Omit<RosterPlayer, "id">>
+): Roster {
+  return {
+    ...r,
+    players: r.players.map((p) => (p.id === id ? { ...p, ...patch } : p)),
+  };
+}
+
+export function removePlayer(r: Roster, id: string): Roster {
+  return { ...r, players: r.players.filter((p) => p.id !== id) };
+}
+
+export function addGame(
+  r: Roster,
+  id: string,
+  score: number,
+  date = todayISO()
+): Roster {
+  const game: GameRecord = { id: newId(), date, score };
+  return {
+    ...r,
+    players: r.players.map((p) =>
+      p.id === id ? { ...p, games: [...p.games, game] } : p
+    ),
+  };
+}
+
+export function removeGame(r: Roster, id: string, gameId: string): Roster {
+  return {
+    ...r,
+    players: r.players.map((p) =>
+      p.id === id ? { ...p, games: p.games.filter((g) => g.id !== gameId) } : p
+    ),
+  };
+}
+
+/* -------------------- 점수판 기록 반영 -------------------- */
+/**
+ * 점수판 게임 기록을 이름이 같은 선수의 점수 기록으로 맞춤
+ * - 새 게임은 추가, 점수가 바뀐 게임은 고치고, 점수판에서 지운 게임은 뺌
+ * - 직접 입력한 기록은 그대로, 바뀐 게 없으면 같은 로스터 객체를 돌려줌
+ */
+export function syncScoreHistory(r: Roster, history: PlayedGame[]): Roster {
+  let changed = false;
+  const players = r.players.map((p) => {
+    const played = history.filter((g) => g.player === p.name);
+    const ids = new Set(played.map((g) => g.id));
+    const kept = p.games.filter((g) => !g.historyId || ids.has(g.historyId));
+    const games = kept.map((g) => {
+      const src = g.historyId && played.find((h) => h.id === g.historyId);
+      return src && src.score !== g.score ? { ...g, score: src.score } : g;
+    });
+    const known = new Set(games.map((g) => g.historyId));
+    for (const h of played)
+      if (!known.has(h.id))
+        games.push({
+          id: newId(),
+          date: h.date,
+          score: h.score,
+          historyId: h.id,
+        });
+    if (
+      games.length === p.games.length &&
+      games.every((g, i) => g === p.games[i])
+    )
+      return p;
+    changed = true;
+    return { ...p, games };
+  });
+  return changed ? { ...r, players } : r;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type { Group } from "./groups";
+import {
+  countPairRepeats,
+  pairKey,
+  pairMeetings,
+  type TeamAssignment,
+} from "./pairs";
+import { createRng } from "./random";
+import {
+  planOneRound,
+  scheduleRounds,
+  sizeConflicts,
+  teamCapacities,
+  type SizeOptions,
+} from "./rounds";
+
+const groups: Group[] = [
+  { name: "A", members: ["a1", "a2", "a3", "a4", "a5"] },
+  { name: "B", members: ["b1", "b2", "b3", "b4"] },
+  { name: "C", members: ["c1", "c2", "c3"] },
+];
+const everyone = groups.flatMap((g) => g.members).sort();
+
+// 라운드마다 페어가 두 번 이상 같은 팀이 된 횟수 합 Σ C(m, 2)
+function repeatCost(rounds: TeamAssignment[]) {
+  let cost = 0;
+  for (const m of pairMeetings(rounds).values()) cost += (m * (m - 1)) / 2;
+  return cost;
+}
+
+describe("countPairRepeats", () => {
+  it("이전 페어와 겹치는 수와 누적 페어", () => {
+    const prev = new Set([pairKey("a", "b")]);
+    const { repeats, pairSet } = countPairRepeats(prev, [
+      ["b", "a", "c"],
+      ["d"],
+    ]);
+    expect(repeats).toBe(1);
+    expect([...pairSet].sort()).toEqual(["a|b", "a|c", "b|c"]);
+  });
+});
+
+describe("teamCapacities / sizeConflicts", () => {
+  it("균등: 한 명 더 받는 팀이 라운드마다 회전", () => {
+    const opts: SizeOptions = { evenSizes: true, maxPerTeam: null };
+    expect(teamCapacities(7, 3, 0, opts)).toEqual([3, 2, 2]);
+    expect(teamCapacities(7, 3, 1, opts)).toEqual([2, 3, 2]);
+  });
+
+  it("팀당 최대로 못 담으면 완화하고 경고", () => {
+    const opts: SizeOptions = { evenSizes: false, maxPerTeam: 3 };
+    expect(teamCapacities(10, 3, 0, opts)).toEqual([4, 4, 4]);
+    expect(sizeConflicts(10, 3, opts)).toHaveLength(1);
+    expect(sizeConflicts(9, 3, opts)).toEqual([]);
+  });
+});
+
+describe("planOneRound", () => {
+  it("같은 시드면 같은 결과", () => {
+    const a = planOneRound(groups, 3, 0, createRng("seed"));
+    const b = planOneRound(groups, 3, 0, createRng("seed"));
+    expect(a).toEqual(b);
+  });
+
+  it("모든 선수를 한 번씩, 그룹은 팀별로 고르게", () => {
+    for (let s = 0; s < 50; s++) {
+      const teams = planOneRound(groups, 3, s % 4, createRng(`r${s}`));
+      expect(teams.flat().sort()).toEqual(everyone);
+      for (const g of groups) {
+        const counts = teams.map(
+          (t) => t.filter((n) => g.members.includes(n)).length
+        );
+        expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(
+          1
+        );
+      }
+    }
+  });
+
+  it("균등 인원/팀당 최대 인원 지킴", () => {
+    for (let s = 0; s < 50; s++) {
+      const even = planOneRound(groups, 5, s, createRng(`e${s}`), {
+        evenSizes: true,
+        maxPerTeam: null,
+      });
+      const sizes = even.map((t) => t.length);
+      expect(Math.max(...sizes) - Math.min(...sizes)).toBeLessThanOrEqual(1);
+
+      const capped = planOneRound(groups, 4, s, createRng(`c${s}`), {
+        evenSizes: false,
+        maxPerTeam: 3,
+      });
+      expect(capped.flat().sort()).toEqual(everyone);
+      for (const t of capped) expect(t.length).toBeLessThanOrEqual(3);
+    }
+  });
+});
+
+describe("scheduleRounds", () => {
+  it("라운드마다 모든 선수, 반복 페어는 독립 라운드보다 많지 않음", () => {
+    for (let s = 0; s < 5; s++) {
+      const rounds = scheduleRounds(groups, 3, 4, createRng(`s${s}`));
+      expect(rounds).toHaveLength(4);
+      for (const teams of rounds) expect(teams.flat().sort()).toEqual(everyone);
+
+      const rng = createRng(`s${s}`);
+      const independent = Array.from({ length: 4 }, (_, r) =>
+        planOneRound(groups, 3, r, rng)
+      );
+      expect(repeatCost(rounds)).toBeLessThanOrEqual(repeatCost(independent));
+    }
+  });
+});
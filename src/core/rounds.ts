@@ -0,0 +1,240 @@
+import type { Group } from "./groups";
+import type { TeamAssignment } from "./pairs";
+import { shuffle, type Rng } from "./random";
+
+/**
+ * 그룹 기반 랜덤 라운드 배치 (랜덤 모드, 에버 없음)
+ * - 그룹별로 셔플 → 라운드마다 시작 팀을 회전하며 라운드로빈 분배
+ * - 팀 정원(균등/팀당 최대)을 주면 정원 안에서 그룹별로 고르게
+ * - scheduleRounds: 전 라운드를 함께 짜서 같은 그룹끼리 교환하며 반복 페어를 줄임
+ */
+
+export type SizeOptions = {
+  evenSizes: boolean; // 팀 인원 차이 최대 1명
+  maxPerTeam: number | null; // 팀(레인)당 최대 인원, null = 제한 없음
+};
+
+function distributeGroupToTeams(
+  players: string[],
+  teamCount: number,
+  startOffset: number,
+  rng: Rng
+): TeamAssignment {
+  const teams: TeamAssignment = Array.from({ length: teamCount }, () => []);
+  const shuffled = shuffle(players, rng);
+  shuffled.forEach((name, idx) => {
+    const teamIdx = (idx + startOffset) % teamCount; // 라운드마다 시작팀 회전
+    teams[teamIdx].push(name);
+  });
+  return teams;
+}
+
+function mergeTeams(into: TeamAssignment, add: TeamAssignment) {
+  for (let i = 0; i < into.length; i++) into[i].push(...add[i]);
+}
+
+/* -------------------- 팀 정원 -------------------- */
+// 정원 제한이 없으면 null (기존 라운드로빈 분배)
+export function teamCapacities(
+  total: number,
+  teamCount: number,
+  roundIdx: number,
+  opts: SizeOptions
+): number[] | null {
+  if (!opts.evenSizes && opts.maxPerTeam === null) return null;
+  if (!opts.evenSizes) {
+    // 팀당 최대로 다 못 담으면 필요한 만큼 완화 (경고는 sizeConflicts에서)
+    const cap = Math.max(opts.maxPerTeam!, Math.ceil(total / teamCount));
+    return Array(teamCount).fill(cap);
+  }
+  // 균등: floor/ceil, 한 명 더 받는 팀은 라운드마다 회전
+  const base = Math.floor(total / teamCount);
+  const extra = total % teamCount;
+  const shift = roundIdx % teamCount;
+  return Array.from(
+    { length: teamCount },
+    (_, t) => base + ((t - shift + teamCount) % teamCount < extra ? 1 : 0)
+  );
+}
+
+export function sizeConflicts(
+  total: number,
+  teamCount: number,
+  opts: SizeOptions
+): string[] {
+  const { maxPerTeam } = opts;
+  if (maxPerTeam === null || total <= maxPerTeam * teamCount) return [];
+  return [
+    `${total}명을 ${teamCount}팀 × 최대 ${maxPerTeam}명에 모두 배정할 수 없어요. ` +
+      `팀당 ${Math.ceil(total / teamCount)}명까지 허용해서 배정합니다 ` +
+      `(최대 인원을 지키려면 ${Math.ceil(total / maxPerTeam)}팀 필요).`,
+  ];
+}
+
+// 정원 안에서 그룹별로 팀에 고르게: 이 그룹 인원이 가장 적은 팀 → 남은 자리가 많은 팀 → 회전 순서
+function distributeWithCapacity(
+  members: string[],
+  offset: number,
+  left: number[],
+  result: TeamAssignment,
+  rng: Rng
+) {
+  const teamCount = left.length;
+  const counts = Array<number>(teamCount).fill(0);
+  shuffle(members, rng).forEach((name, i) => {
+    let best = -1;
+    for (let k = 0; k < teamCount; k++) {
+      const t = (i + offset + k) % teamCount;
+      if (left[t] <= 0) continue;
+      if (
+        best < 0 ||
+        counts[t] < counts[best] ||
+        (counts[t] === counts[best] && left[t] > left[best])
+      )
+        best = t;
+    }
+    result[best].push(name);
+    counts[best]++;
+    left[best]--;
+  });
+}
+
+// 그룹 인원이 팀별로 2명 이상 차이 나는 그룹 (정원 때문에 고르게 못 나눈 경우)
+export function unevenGroups(groups: Group[], rounds: TeamAssignment[]) {
+  const uneven = new Set<string>();
+  for (const g of groups) {
+    const members = new Set(g.members);
+    for (const teams of rounds) {
+      const counts = teams.map(
+        (team) => team.filter((n) => members.has(n)).length
+      );
+      if (Math.max(...counts) - Math.min(...counts) > 1) uneven.add(g.name);
+    }
+  }
+  return [...uneven];
+}
+
+export function planOneRound(
+  groups: Group[],
+  teamCount: number,
+  roundIdx: number,
+  rng: Rng,
+  sizeOpts: SizeOptions = { evenSizes: false, maxPerTeam: null }
+): TeamAssignment {
+  const result: TeamAssignment = Array.from({ length: teamCount }, () => []);
+  const total = groups.reduce((s, g) => s + g.members.length, 0);
+  const capacity = teamCapacities(total, teamCount, roundIdx, sizeOpts);
+  // 그룹 순서 자체도 셔플하여 편향 방지
+  for (const { name: groupName, members } of shuffle(groups, rng)) {
+    if (!members || members.length === 0) continue;
+    // 그룹 내 셔플 + 시작 팀 오프셋 적용
+    const offset = (roundIdx + groupName.length) % teamCount; // 그룹별로도 약간 변화
+    if (capacity) {
+      distributeWithCapacity(members, offset, capacity, result, rng);
+      continue;
+    }
+    const byGroup = distributeGroupToTeams(members, teamCount, offset, rng);
+    mergeTeams(result, byGroup);
+  }
+  // 팀 내부도 살짝 셔플(표시상 편향 완화)
+  for (let i = 0; i < result.length; i++) result[i] = shuffle(result[i], rng);
+  return result;
+}
+
+/* -------------------- 중복 최소화 스케줄러 -------------------- */
+// 초기 배치(planOneRound × 라운드 수)를 여러 번 뽑아 각각 로컬 서치 후 최선 선택
+const SCHEDULE_RESTARTS = 24;
+const SCHEDULE_MAX_PASSES = 50;
+
+/**
+ * 모든 라운드를 함께 최적화.
+ * - 비용: 페어별 만난 횟수 m에 대해 Σ C(m, 2) (두 번째 만남부터 점점 비싸게)
+ * - 이동: 같은 라운드, 같은 그룹 선수끼리 팀 교환 → 팀별 그룹 인원 수(분배 규칙)와 팀 정원 유지
+ * - 더 이상 개선되는 교환이 없을 때까지 반복
+ */
+export function scheduleRounds(
+  groups: Group[],
+  teamCount: number,
+  rounds: number,
+  rng: Rng,
+  sizeOpts?: SizeOptions
+): TeamAssignment[] {
+  const names = [...new Set(groups.flatMap((g) => g.members))];
+  const idx = new Map(names.map((n, i) => [n, i]));
+  const groupOf = new Map<string, string>();
+  for (const g of groups) for (const m of g.members) groupOf.set(m, g.name);
+  const n = names.length;
+
+  let best: TeamAssignment[] = [];
+  let bestCost = Infinity;
+
+  for (let restart = 0; restart < SCHEDULE_RESTARTS; restart++) {
+    const plan = Array.from({ length: rounds }, (_, r) =>
+      planOneRound(groups, teamCount, r, rng, sizeOpts)
+    );
+
+    const meet = new Int32Array(n * n);
+    const at = (a: string, b: string) => idx.get(a)! * n + idx.get(b)!;
+    const bump = (a: string, b: string, d: number) => {
+      meet[at(a, b)] += d;
+      meet[at(b, a)] += d;
+    };
+    for (const teams of plan)
+      for (const team of teams)
+        for (let i = 0; i < team.length; i++)
+          for (let j = i + 1; j < team.length; j++) bump(team[i], team[j], 1);
+
+    // x가 A팀 → B팀, y가 B팀 → A팀으로 갈 때 비용 변화
+    const swapDelta = (x: string, y: string, A: string[], B: string[]) => {
+      let d = 0;
+      for (const z of A) {
+        if (z === x) continue;
+        d += meet[at(y, z)] - (meet[at(x, z)] - 1);
+      }
+      for (const w of B) {
+        if (w === y) continue;
+        d += meet[at(x, w)] - (meet[at(y, w)] - 1);
+      }
+      return d;
+    };
+
+    for (let pass = 0; pass < SCHEDULE_MAX_PASSES; pass++) {
+      let improved = false;
+      for (const teams of plan) {
+        for (let a = 0; a < teams.length; a++) {
+          for (let b = a + 1; b < teams.length; b++) {
+            for (let i = 0; i < teams[a].length; i++) {
+              for (let j = 0; j < teams[b].length; j++) {
+                const x = teams[a][i];
+                const y = teams[b][j];
+                if (groupOf.get(x) !== groupOf.get(y)) continue;
+                if (swapDelta(x, y, teams[a], teams[b]) >= 0) continue;
+                for (const z of teams[a]) if (z !== x) bump(x, z, -1);
+                for (const w of teams[b]) if (w !== y) bump(y, w, -1);
+                teams[a][i] = y;
+                teams[b][j] = x;
+                for (const z of teams[a]) if (z !== y) bump(y, z, 1);
+                for (const w of teams[b]) if (w !== x) bump(x, w, 1);
+                improved = true;
+              }
+            }
+          }
+        }
+      }
+      if (!improved) break;
+    }
+
+    let cost = 0;
+    for (let i = 0; i < n; i++)
+      for (let j = i + 1; j < n; j++) {
+        const m = meet[i * n + j];
+        cost += (m * (m - 1)) / 2;
+      }
+    if (cost < bestCost) {
+      bestCost = cost;
+      best = plan;
+    }
+    if (bestCost === 0) break;
+  }
+  return best;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import type { Frame } from "./bowling";
+import { evaluateGame, validateFrame } from "./scoring";
+
+// 앞에서부터 채우고 나머지는 모름(null)
+const partial = (...frames: Frame[]) =>
+  Array.from({ length: 10 }, (_, i) => frames[i] ?? null);
+
+describe("validateFrame", () => {
+  it("1~9프 규칙 위반", () => {
+    expect(validateFrame([10, 0], 0)?.code).toBe("roll-after-strike");
+    expect(validateFrame([6, 5], 3)?.code).toBe("frame-overflow");
+    expect(validateFrame([1, 2, 3], 3)?.code).toBe("too-many-rolls");
+    expect(validateFrame([11], 0)?.code).toBe("invalid-pins");
+    expect(validateFrame([2.5], 0)?.code).toBe("invalid-pins");
+  });
+});
+
+describe("evaluateGame", () => {
+  it("잘못된 10프는 프레임 번호와 함께 오류, 최대 점수 없음", () => {
+    const open = evaluateGame([...Array(9).fill([0, 0]), [5, 3, 4]]);
+    expect(open.errors).toEqual([
+      expect.objectContaining({ code: "bonus-not-earned", frame: 9 }),
+    ]);
+    expect(open.complete).toBe(false);
+    expect(open.maxPossible).toBe(null);
+    expect(open.maxRemaining).toBe(null);
+
+    // X 다음 둘째 구가 스트라이크가 아니면 셋째 구와 같은 랙
+    const overflow = evaluateGame([...Array(9).fill([0, 0]), [10, 5, 6]]);
+    expect(overflow.errors.map((e) => [e.code, e.frame])).toEqual([
+      ["frame-overflow", 9],
+    ]);
+    expect(
+      evaluateGame([...Array(9).fill([0, 0]), [1, 2, 3, 4]]).errors[0].code
+    ).toBe("too-many-rolls");
+  });
+
+  it("중간에 덜 굴린 프레임이 있으면 그 뒤 누적은 확정되지 않음", () => {
+    const ev = evaluateGame(partial([3, 4], [5], [2, 2]));
+    expect(ev.errors).toEqual([]);
+    expect(ev.frames.map((f) => f.complete).slice(0, 3)).toEqual([
+      true,
+      false,
+      true,
+    ]);
+    expect(ev.frames.map((f) => f.score).slice(0, 3)).toEqual([7, null, 4]);
+    expect(ev.frames.map((f) => f.cumulative).slice(0, 3)).toEqual([
+      7,
+      null,
+      null,
+    ]);
+    expect(ev.settled).toBe(11);
+    expect(ev.total).toBe(16);
+    expect(ev.complete).toBe(false);
+  });
+
+  it("스트라이크 뒤 덜 굴린 프레임은 들어온 만큼만 보너스", () => {
+    const ev = evaluateGame(partial([10], [5]));
+    expect(ev.frames[0]).toMatchObject({
+      base: 10,
+      bonus: 5,
+      pendingBonus: 1,
+      score: null,
+    });
+    expect(ev.total).toBe(20);
+  });
+
+  it("아직 안 굴린 보너스 구 수", () => {
+    const ev = evaluateGame(partial([10], [10], [7, 3]));
+    expect(ev.frames.map((f) => f.pendingBonus).slice(0, 3)).toEqual([0, 0, 1]);
+    expect(ev.frames.map((f) => f.score).slice(0, 3)).toEqual([27, 20, null]);
+    expect(ev.total).toBe(57);
+    expect(ev.settled).toBe(47);
+
+    // 10프는 남은 투구 수
+    const tenth = (f: Frame) =>
+      evaluateGame([...Array(9).fill([0, 0]), f]).frames[9].pendingBonus;
+    expect(tenth([10])).toBe(2);
+    expect(tenth([7])).toBe(1);
+    expect(tenth([7, 3])).toBe(1);
+    expect(tenth([7, 2])).toBe(0);
+    expect(tenth([10, 10])).toBe(1);
+  });
+
+  it("최대 가능 점수: 오픈 프레임은 그대로, 남은 구는 스트라이크로", () => {
+    const opens = evaluateGame(partial(...Array(9).fill([9, 0])));
+    expect(opens.total).toBe(81);
+    expect(opens.maxPossible).toBe(111);
+    expect(opens.maxRemaining).toBe(30);
+
+    expect(evaluateGame(partial([3, 4])).maxPossible).toBe(277);
+    // 덜 굴린 프레임은 스페어로 마무리
+    expect(evaluateGame(partial([7])).maxPossible).toBe(290);
+    expect(evaluateGame([...Array(9).fill([9, 0]), [9]]).maxPossible).toBe(
+      81 + 20
+    );
+
+    const done = evaluateGame(Array(10).fill([9, 0]));
+    expect(done.complete).toBe(true);
+    expect(done.maxPossible).toBe(90);
+    expect(done.maxRemaining).toBe(0);
+  });
+
+  it("빈 게임은 0점, 최대 300", () => {
+    const ev = evaluateGame([]);
+    expect(ev.frames).toHaveLength(10);
+    expect(ev.total).toBe(0);
+    expect(ev.maxPossible).toBe(300);
+  });
+});
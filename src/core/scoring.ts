@@ -0,0 +1,228 @@
+import type { Frame } from "./bowling";
+
+/**
+ * 프레임 단위 점수 엔진
+ * - 입력: 1~10프 (null = 아직 모름/안 굴림), 각 프레임은 투구별 핀 수
+ * - 프레임별 점수/누적, 아직 안 굴린 보너스 구 수, 게임 완료 여부
+ * - 최대 가능 점수: 남은(모르는) 구를 모두 스트라이크(불가하면 스페어)로 채운 점수
+ * - 규칙 위반은 프레임 번호와 함께 타입 있는 오류로 보고
+ */
+
+export type ScoreErrorCode =
+  | "invalid-pins" // 0~10 정수가 아님
+  | "frame-overflow" // 한 프레임(랙)에서 10핀 초과
+  | "roll-after-strike" // 1~9프 스트라이크 뒤 투구
+  | "too-many-rolls" // 프레임 투구 수 초과
+  | "bonus-not-earned"; // 10프 오픈인데 3구째 투구
+
+export type ScoreError = {
+  code: ScoreErrorCode;
+  frame: number; // 0부터
+  message: string;
+};
+
+export type FrameScore = {
+  frame: number; // 0부터
+  rolls: number[] | null; // null = 모름
+  base: number; // 이 프레임에서 쓰러뜨린 핀 (10프는 보너스 구 포함)
+  bonus: number; // 다음 프레임에서 이미 들어온 보너스
+  pendingBonus: number; // 아직 안 굴린 보너스 구 수 (10프는 남은 투구 수)
+  complete: boolean; // 이 프레임의 투구가 끝났는지
+  score: number | null; // 확정 점수 (미완료/보너스 대기면 null)
+  cumulative: number | null; // 1프부터 모두 확정됐을 때 누적
+};
+
+export type GameScore = {
+  frames: FrameScore[]; // 항상 10개
+  total: number; // 지금까지 점수 (대기 중 보너스는 0)
+  settled: number; // 확정된 프레임 점수 합
+  complete: boolean;
+  maxPossible: number | null; // 오류가 있으면 null
+  maxRemaining: number | null; // maxPossible - total
+  errors: ScoreError[];
+};
+
+const MESSAGES: Record<ScoreErrorCode, string> = {
+  "invalid-pins": "핀 수는 0~10 사이 정수여야 해요",
+  "frame-overflow": "한 랙에서 10핀을 넘게 쓰러뜨릴 수 없어요",
+  "roll-after-strike": "1~9프는 스트라이크 뒤에 더 굴릴 수 없어요",
+  "too-many-rolls": "투구 수가 너무 많아요",
+  "bonus-not-earned":
+    "10프 보너스 구는 스트라이크나 스페어를 했을 때만 굴릴 수 있어요",
+};
+
+function error(code: ScoreErrorCode, frame: number): ScoreError {
+  return { code, frame, message: MESSAGES[code] };
+}
+
+const isPins = (n: number) => Number.isInteger(n) && n >= 0 && n <= 10;
+
+/* -------------------- 프레임 검증/완료 -------------------- */
+export function validateFrame(rolls: number[], idx: number): ScoreError | null {
+  if (!rolls.every(isPins)) return error("invalid-pins", idx);
+  const [a, b, c] = rolls;
+  if (idx < 9) {
+    if (rolls.length > 2)
+      return error(a === 10 ? "roll-after-strike" : "too-many-rolls", idx);
+    if (rolls.length === 2 && a === 10) return error("roll-after-strike", idx);
+    if (rolls.length === 2 && a + b > 10) return error("frame-overflow", idx);
+    return null;
+  }
+  if (rolls.length > 3) return error("too-many-rolls", idx);
+  if (rolls.length >= 2 && a < 10 && a + b > 10)
+    return error("frame-overflow", idx);
+  if (rolls.length === 3) {
+    if (a < 10 && a + b < 10) return error("bonus-not-earned", idx);
+    // X 다음 둘째 구가 스트라이크가 아니면 셋째 구는 같은 랙
+    if (a === 10 && b < 10 && b + c > 10) return error("frame-overflow", idx);
+  }
+  return null;
+}
+
+// 프레임 투구가 끝났는지 (검증 통과한 프레임 기준)
+export function isFrameComplete(rolls: number[], idx: number) {
+  const [a, b] = rolls;
+  if (idx < 9) return a === 10 || rolls.length === 2;
+  if (rolls.length === 3) return true;
+  return rolls.length === 2 && a < 10 && a + b < 10;
+}
+
+// 다음 공을 던질 때 서 있는 핀 수 (프레임이 끝났으면 0)
+export function pinsStanding(rolls: number[], idx: number) {
+  if (isFrameComplete(rolls, idx)) return 0;
+  let standing = 10;
+  for (const pins of rolls) {
+    standing -= pins;
+    if (standing === 0) standing = 10; // 10프 스트라이크/스페어 뒤 새 랙
+  }
+  return standing;
+}
+
+// 10프에 남은 투구 수 (최소 기준)
+function tenthRollsLeft(rolls: number[]) {
+  const [a, b] = rolls;
+  if (rolls.length === 0) return 2;
+  if (rolls.length === 1) return a === 10 ? 2 : 1;
+  if (rolls.length === 2) return a === 10 || a + b === 10 ? 1 : 0;
+  return 0;
+}
+
+// 미완료 프레임/모르는 프레임을 가장 높은 점수가 나오게 채움
+function maxFill(rolls: number[] | null, idx: number): number[] {
+  if (idx < 9) {
+    if (!rolls || rolls.length === 0) return [10];
+    if (rolls.length === 1 && rolls[0] < 10) return [rolls[0], 10 - rolls[0]];
+    return rolls;
+  }
+  const r = rolls ? [...rolls] : [];
+  while (r.length < 3) {
+    const [a, b] = r;
+    if (r.length === 2 && a < 10 && a + b < 10) break; // 오픈이면 끝
+    // 새 랙이면 스트라이크, 아니면 남은 핀 전부
+    const fresh =
+      r.length === 0 ||
+      (r.length === 1 && a === 10) ||
+      (r.length === 2 && (b === 10 || (a < 10 && a + b === 10)));
+    r.push(fresh ? 10 : 10 - r[r.length - 1]);
+  }
+  return r;
+}
+
+/* -------------------- 점수 계산 -------------------- */
+export function evaluateGame(input: (Frame | null)[]): GameScore {
+  const rolls = Array.from({ length: 10 }, (_, i) => {
+    const f = input[i];
+    return f && f.length > 0 ? [...f] : null;
+  });
+
+  const errors: ScoreError[] = [];
+  rolls.forEach((r, i) => {
+    const err = r && validateFrame(r, i);
+    if (err) errors.push(err);
+  });
+
+  // i프 뒤에 이어지는 투구 (모르는 프레임을 만나면 거기까지)
+  const following = (i: number, source: (number[] | null)[]) => {
+    const out: number[] = [];
+    for (let j = i + 1; j < 10; j++) {
+      const r = source[j];
+      if (!r) break;
+      out.push(...r);
+      if (!isFrameComplete(r, j)) break;
+    }
+    return out;
+  };
+
+  const frames: FrameScore[] = [];
+  let total = 0;
+  let settled = 0;
+  let allSettled = true;
+  for (let i = 0; i < 10; i++) {
+    const r = rolls[i];
+    if (!r) {
+      allSettled = false;
+      frames.push({
+        frame: i,
+        rolls: null,
+        base: 0,
+        bonus: 0,
+        pendingBonus: 0,
+        complete: false,
+        score: null,
+        cumulative: null,
+      });
+      continue;
+    }
+    const base = r.reduce((s, n) => s + n, 0);
+    const complete = isFrameComplete(r, i);
+    let bonus = 0;
+    let pendingBonus = 0;
+    if (i === 9) {
+      pendingBonus = tenthRollsLeft(r);
+    } else if (complete) {
+      const need = r[0] === 10 ? 2 : base === 10 ? 1 : 0;
+      const next = following(i, rolls).slice(0, need);
+      bonus = next.reduce((s, n) => s + n, 0);
+      pendingBonus = need - next.length;
+    }
+    const resolved = complete && pendingBonus === 0;
+    const score = resolved ? base + bonus : null;
+    total += base + bonus;
+    if (score !== null) settled += score;
+    allSettled = allSettled && resolved;
+    frames.push({
+      frame: i,
+      rolls: r,
+      base,
+      bonus,
+      pendingBonus,
+      complete,
+      score,
+      cumulative: allSettled ? settled : null,
+    });
+  }
+
+  let maxPossible: number | null = null;
+  if (errors.length === 0) {
+    const best = rolls.map((r, i) => maxFill(r, i));
+    maxPossible = best.reduce((sum, r, i) => {
+      const base = r.reduce((s, n) => s + n, 0);
+      if (i === 9) return sum + base;
+      const need = r[0] === 10 ? 2 : base === 10 ? 1 : 0;
+      const bonus = following(i, best)
+        .slice(0, need)
+        .reduce((s, n) => s + n, 0);
+      return sum + base + bonus;
+    }, 0);
+  }
+
+  return {
+    frames,
+    total,
+    settled,
+    complete: errors.length === 0 && allSettled,
+    maxPossible,
+    maxRemaining: maxPossible === null ? null : maxPossible - total,
+    errors,
+  };
+}
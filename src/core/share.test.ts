@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  decodeResult,
+  encodeResult,
+  SHARE_VERSION,
+  type SharedMainResult,
+  type SharedRandomResult,
+} from "./share";
+
+const main: SharedMainResult = {
+  kind: "main",
+  games: [
+    [
+      [
+        { name: "김철수", avg: 155.5 },
+        { name: "Lee", avg: 170 },
+      ],
+      [{ name: "박 민수", avg: 142 }],
+    ],
+    [[{ name: "김철수", avg: 155.5 }], [{ name: "Lee", avg: 170 }]],
+  ],
+  settings: {
+    maxPerTable: 6,
+    balanceMode: "optimized",
+    handicap: { base: 220, percent: 80 },
+    startLane: 7,
+  },
+};
+
+const random: SharedRandomResult = {
+  kind: "random",
+  rounds: [
+    [
+      ["가", "나"],
+      ["다", "라"],
+    ],
+    [
+      ["가", "다"],
+      ["나", "라"],
+    ],
+  ],
+  pairRepeats: [0, 0],
+  settings: {
+    teamCount: 2,
+    rounds: 2,
+    minimizeRepeats: false,
+    evenSizes: true,
+    maxPerTeam: 3,
+  },
+  seed: "정모-0914",
+  groups: [
+    { name: "1그룹", members: ["가", "다"] },
+    { name: "2그룹", members: ["나", "라"] },
+  ],
+};
+
+// 테스트용: 임의 payload를 공유 코드처럼 (ASCII만)
+const code = (payload: unknown) =>
+  btoa(JSON.stringify(payload)).replace(/=+$/, "");
+
+describe("encodeResult / decodeResult", () => {
+  it("일반 결과 왕복 (한글 이름, 핸디캡)", () => {
+    expect(decodeResult(encodeResult(main))).toEqual(main);
+    const scratchOnly: SharedMainResult = {
+      ...main,
+      settings: { ...main.settings, balanceMode: "snake", handicap: null },
+    };
+    expect(decodeResult(encodeResult(scratchOnly))).toEqual(scratchOnly);
+  });
+
+  it("랜덤 결과 왕복 (시드 없음 포함)", () => {
+    expect(decodeResult(encodeResult(random))).toEqual(random);
+    const noSeed = { ...random, seed: null, groups: null };
+    expect(decodeResult(encodeResult(noSeed))).toEqual(noSeed);
+  });
+
+  it("옵션/그룹이 없는 예전 랜덤 링크는 기본값으로", () => {
+    const old = code([SHARE_VERSION, "r", [[["A"], ["B"]]], [0], [2, 1], "s"]);
+    expect(decodeResult(old)).toEqual({
+      kind: "random",
+      rounds: [[["A"], ["B"]]],
+      pairRepeats: [0],
+      settings: {
+        teamCount: 2,
+        rounds: 1,
+        minimizeRepeats: true,
+        evenSizes: false,
+        maxPerTeam: null,
+      },
+      seed: "s",
+      groups: null,
+    });
+  });
+
+  it("base64url 문자만 쓰고 앞뒤 공백은 무시", () => {
+    const c = encodeResult(main);
+    expect(c).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeResult(`  ${c}\n`)).toEqual(main);
+  });
+
+  it("모르는 버전/종류는 null", () => {
+    expect(decodeResult(code([SHARE_VERSION + 1, "m", [], [6, 0, 0, 1]]))).toBe(
+      null
+    );
+    expect(decodeResult(code([SHARE_VERSION, "x", []]))).toBe(null);
+    expect(decodeResult(code({ v: SHARE_VERSION }))).toBe(null);
+  });
+
+  it("깨진 코드는 null", () => {
+    const c = encodeResult(main);
+    expect(decodeResult(c.slice(0, -5))).toBe(null);
+    expect(decodeResult("!!!")).toBe(null);
+    expect(decodeResult("")).toBe(null);
+    expect(
+      decodeResult(code([SHARE_VERSION, "m", [[["Kim"]]], [6, 0, 0, 1]]))
+    ).toBe(null);
+    expect(
+      decodeResult(code([SHARE_VERSION, "r", [[["A", 1]]], [0], [2, 1]]))
+    ).toBe(null);
+    expect(
+      decodeResult(
+        code([SHARE_VERSION, "r", [[["A"]]], [0], [2, 1], "s", [["G", [1]]]])
+      )
+    ).toBe(null);
+  });
+});
@@ -0,0 +1,194 @@
+import type { Group } from "./groups";
+
+/**
+ * 결과 공유 링크 인코딩 (서버 없음)
+ * - 결과를 짧은 배열 형태로 줄여 JSON → UTF-8 → base64url
+ * - 첫 원소가 포맷 버전. 모르는 버전/깨진 값은 null
+ *
+ *   v1 일반: [1, "m", games, [maxPerTable, mode, handicap, startLane]]
+ *            games[g][team] = [[name, avg], ...], handicap = 0 | [base, percent]
+ *   v1 랜덤: [1, "r", rounds, pairRepeats, [teamCount, roundCount, minimize, even, maxPerTeam], seed, groups]
+ *            rounds[r][team] = [name, ...], minimize/even = 0 | 1, maxPerTeam = 0(제한 없음) | n
+ *            groups = [[groupName, [member, ...]], ...] – 추첨에 쓴 그룹 (다시 추첨용)
+ *            (옵션 뒤 세 값이 없는 예전 링크는 랜덤 모드 기본값으로, groups가 없으면 null)
+ */
+
+export const SHARE_VERSION = 1;
+
+export type SharedPlayer = { name: string; avg: number };
+
+export type SharedMainResult = {
+  kind: "main";
+  games: SharedPlayer[][][]; // games[g][team] = players
+  settings: {
+    maxPerTable: number;
+    balanceMode: "snake" | "optimized";
+    handicap: { base: number; percent: number } | null;
+    startLane: number;
+  };
+};
+
+export type SharedRandomResult = {
+  kind: "random";
+  rounds: string[][][]; // rounds[r][team] = names
+  pairRepeats: number[];
+  // 시드가 같아도 이 옵션이 다르면 추첨이 달라지므로 함께 공유
+  settings: {
+    teamCount: number;
+    rounds: number;
+    minimizeRepeats: boolean;
+    evenSizes: boolean;
+    maxPerTeam: number | null;
+  };
+  seed: string | null;
+  groups: Group[] | null; // 추첨에 쓴 그룹 (예전 링크는 null)
+};
+
+export type SharedResult = SharedMainResult | SharedRandomResult;
+
+/* -------------------- base64url (UTF-8) -------------------- */
+function toBase64Url(text: string) {
+  const bytes = new TextEncoder().encode(text);
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(code: string) {
+  const b64 = code.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  const bytes = Uint8Array.from(bin, (c) => c.charCodeAt(0));
+  return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+}
+
+/* -------------------- encode -------------------- */
+export function encodeResult(r: SharedResult): string {
+  const payload =
+    r.kind === "main"
+      ? [
+          SHARE_VERSION,
+          "m",
+          r.games.map((teams) =>
+            teams.map((players) => players.map((p) => [p.name, p.avg]))
+          ),
+          [
+            r.settings.maxPerTable,
+            r.settings.balanceMode === "optimized" ? 1 : 0,
+            r.settings.handicap
+              ? [r.settings.handicap.base, r.settings.handicap.percent]
+              : 0,
+            r.settings.startLane,
+          ],
+        ]
+      : [
+          SHARE_VERSION,
+          "r",
+          r.rounds,
+          r.pairRepeats,
+          [
+            r.settings.teamCount,
+            r.settings.rounds,
+            r.settings.minimizeRepeats ? 1 : 0,
+            r.settings.evenSizes ? 1 : 0,
+            r.settings.maxPerTeam ?? 0,
+          ],
+          r.seed,
+          r.groups ? r.groups.map((g) => [g.name, g.members]) : 0,
+        ];
+  return toBase64Url(JSON.stringify(payload));
+}
+
+/* -------------------- decode -------------------- */
+const isNum = (v: unknown): v is number =>
+  typeof v === "number" && Number.isFinite(v);
+const isStr = (v: unknown): v is string => typeof v === "string";
+const isArr = (v: unknown): v is unknown[] => Array.isArray(v);
+
+function decodeMain(p: unknown[]): SharedMainResult | null {
+  const [, , games, settings] = p;
+  if (!isArr(games) || !isArr(settings)) return null;
+  const out: SharedPlayer[][][] = [];
+  for (const teams of games) {
+    if (!isArr(teams)) return null;
+    const ts: SharedPlayer[][] = [];
+    for (const players of teams) {
+      if (!isArr(players)) return null;
+      const ps: SharedPlayer[] = [];
+      for (const pl of players) {
+        if (!isArr(pl) || !isStr(pl[0]) || !isNum(pl[1])) return null;
+        ps.push({ name: pl[0], avg: pl[1] });
+      }
+      ts.push(ps);
+    }
+    out.push(ts);
+  }
+  const [maxPerTable, mode, hc, startLane] = settings;
+  if (!isNum(maxPerTable) || !isNum(startLane)) return null;
+  const handicap =
+    isArr(hc) && isNum(hc[0]) && isNum(hc[1])
+      ? { base: hc[0], percent: hc[1] }
+      : null;
+  return {
+    kind: "main",
+    games: out,
+    settings: {
+      maxPerTable,
+      balanceMode: mode === 1 ? "optimized" : "snake",
+      handicap,
+      startLane,
+    },
+  };
+}
+
+function decodeRandom(p: unknown[]): SharedRandomResult | null {
+  const [, , rounds, repeats, settings, seed, groups] = p;
+  if (!isArr(rounds) || !isArr(repeats) || !isArr(settings)) return null;
+  for (const teams of rounds) {
+    if (!isArr(teams)) return null;
+    for (const names of teams) {
+      if (!isArr(names) || !names.every(isStr)) return null;
+    }
+  }
+  if (!repeats.every(isNum)) return null;
+  const [teamCount, roundCount, minimize, even, maxPerTeam] = settings;
+  if (!isNum(teamCount) || !isNum(roundCount)) return null;
+  let shared: Group[] | null = null;
+  if (isArr(groups)) {
+    shared = [];
+    for (const g of groups) {
+      if (!isArr(g) || !isStr(g[0]) || !isArr(g[1]) || !g[1].every(isStr))
+        return null;
+      shared.push({ name: g[0], members: g[1] as string[] });
+    }
+  }
+  return {
+    kind: "random",
+    rounds: rounds as string[][][],
+    pairRepeats: repeats as number[],
+    settings: {
+      teamCount,
+      rounds: roundCount,
+      minimizeRepeats: minimize !== 0,
+      evenSizes: even === 1,
+      maxPerTeam: isNum(maxPerTeam) && maxPerTeam >= 1 ? maxPerTeam : null,
+    },
+    seed: isStr(seed) ? seed : null,
+    groups: shared,
+  };
+}
+
+export function decodeResult(code: string): SharedResult | null {
+  try {
+    const p: unknown = JSON.parse(fromBase64Url(code.trim()));
+    if (!isArr(p) || p[0] !== SHARE_VERSION) return null;
+    if (p[1] === "m") return decodeMain(p);
+    if (p[1] === "r") return decodeRandom(p);
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+export function shareUrl(path: "/main" | "/random", r: SharedResult) {
+  return `${window.location.origin}${path}?result=${encodeResult(r)}`;
+}
@@ -0,0 +1,85 @@
+import { formatCsvField } from "./csv";
+
+/**
+ * Google 스프레드시트 데이터 소스
+ * - 아무 시트 링크(편집/공유 URL)를 gviz CSV 엔드포인트로 변환
+ * - 열 매핑(이름/에버/참석 여부)으로 "이름, 에버" 명단 텍스트 생성
+ */
+
+export type SheetSettings = {
+  link: string; // 붙여넣은 원본 링크
+  gid: string; // 시트 탭 id (sheetName이 비어 있을 때 사용)
+  sheetName: string; // 시트 탭 이름 (있으면 gid보다 우선)
+  hasHeader: boolean; // 첫 행이 헤더인지
+  nameCol: number; // 0 = A열
+  avgCol: number;
+  attendCol: number | null; // 참석 여부 열 (없으면 null)
+};
+
+export const DEFAULT_SHEET_SETTINGS: SheetSettings = {
+  link: "https://docs.google.com/spreadsheets/d/1Q97suapoy2sHlRz-mBHJzNCREqKuJgAVK98827avlBs/edit#gid=0",
+  gid: "0",
+  sheetName: "",
+  hasHeader: true,
+  nameCol: 0,
+  avgCol: 1,
+  attendCol: null,
+};
+
+// 링크에서 문서 id / gid 추출. 링크 대신 id만 붙여넣어도 허용.
+export function parseSheetLink(
+  link: string
+): { id: string; gid?: string } | null {
+  const s = link.trim();
+  const m = s.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/);
+  const id = m?.[1] ?? (/^[a-zA-Z0-9_-]{20,}$/.test(s) ? s : null);
+  if (!id) return null;
+  const gid = s.match(/[#?&]gid=(\d+)/)?.[1];
+  return { id, gid };
+}
+
+export function gvizCsvUrl(s: SheetSettings): string | null {
+  const parsed = parseSheetLink(s.link);
+  if (!parsed) return null;
+  const base = `https://docs.google.com/spreadsheets/d/${parsed.id}/gviz/tq?tqx=out:csv`;
+  if (s.sheetName.trim())
+    return `${base}&sheet=${encodeURIComponent(s.sheetName.trim())}`;
+  return `${base}&gid=${encodeURIComponent(s.gid || "0")}`;
+}
+
+export function columnLabel(i: number) {
+  let n = i + 1;
+  let label = "";
+  while (n > 0) {
+    const r = (n - 1) % 26;
+    label = String.fromCharCode(65 + r) + label;
+    n = Math.floor((n - 1) / 26);
+  }
+  return label;
+}
+
+const ATTEND_TRUE = /^(true|y|yes|o|v|1|참|참석|✓|✔|☑)$/i;
+
+export function isAttending(cell: string) {
+  return ATTEND_TRUE.test(cell.trim());
+}
+
+// 시트 행 → 명단 텍스트 ("이름, 에버" 헤더 포함)
+export type SheetMapping = Pick<
+  SheetSettings,
+  "hasHeader" | "nameCol" | "avgCol" | "attendCol"
+>;
+
+export function rowsToRosterText(rows: string[][], s: SheetMapping): string {
+  const data = s.hasHeader ? rows.slice(1) : rows;
+  const lines = data
+    .filter((r) => (r[s.nameCol] ?? "").trim())
+    .filter((r) => s.attendCol === null || isAttending(r[s.attendCol] ?? ""))
+    .map(
+      (r) =>
+        `${formatCsvField(r[s.nameCol].trim())}, ${formatCsvField(
+          (r[s.avgCol] ?? "").trim()
+        )}`
+    );
+  return ["이름, 에버", ...lines].join("\n");
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { parseFrameSymbol, scoreGame, type Frame } from "./bowling";
+import { candidatePools } from "./candidates";
+import { frameRealism } from "./realism";
+import {
+  assistTarget,
+  buildSolveTable,
+  countSolutions,
+  enumerateSolutions,
+  isMarkFrame,
+  MAX_SCORE,
+  rankedSolutions,
+  solutionMass,
+} from "./solver";
+
+const pools = candidatePools(false);
+// 3프와 10프만 빈칸 (스트라이크 뒤라 보너스 전달도 확인)
+const fixed: (Frame | null)[] = "X 9/ _ X X 7- 9/ X 8/ _"
+  .split(" ")
+  .map((s) => (s === "_" ? null : parseFrameSymbol(s)));
+
+// 빈칸을 전부 채워 점수별로 모은 기준값
+function bruteForce() {
+  const byScore = new Map<number, Frame[][]>();
+  for (const a of pools.normal)
+    for (const b of pools.tenth) {
+      const game = fixed.map((f, i) => f ?? (i === 2 ? a : b));
+      const s = scoreGame(game);
+      byScore.set(s, [...(byScore.get(s) ?? []), game]);
+    }
+  return byScore;
+}
+
+describe("solver", () => {
+  const table = buildSolveTable(fixed, pools);
+  const expected = bruteForce();
+
+  it("모든 목표 점수에서 조합 수가 전수 조사와 같음", () => {
+    for (let t = 0; t <= MAX_SCORE; t++)
+      expect(countSolutions(table, t)).toBe(
+        BigInt(expected.get(t)?.length ?? 0)
+      );
+    expect(countSolutions(table, -1)).toBe(0n);
+    expect(countSolutions(table, 301)).toBe(0n);
+  });
+
+  it("전부 빈칸이면 66^9 × 241", () => {
+    const all = buildSolveTable(Array(10).fill(null), pools);
+    let total = 0n;
+    for (let t = 0; t <= MAX_SCORE; t++) total += countSolutions(all, t);
+    expect(total).toBe(66n ** 9n * 241n);
+  });
+
+  it("나열한 조합은 모두 목표 점수이고 개수가 맞음", () => {
+    expect(expected.get(180)?.length).toBeGreaterThan(0);
+    const games = [...enumerateSolutions(table, 180)];
+    expect(games).toHaveLength(expected.get(180)?.length ?? 0);
+    for (const g of games) expect(scoreGame(g)).toBe(180);
+  });
+
+  it("순위 나열은 가중치 내림차순이고 전체 조합을 빠짐없이", () => {
+    const ranked = [...rankedSolutions(table, 180, frameRealism)];
+    expect(ranked).toHaveLength(expected.get(180)?.length ?? 0);
+    for (let k = 1; k < ranked.length; k++)
+      expect(ranked[k].weight).toBeLessThanOrEqual(ranked[k - 1].weight);
+    const keys = new Set(ranked.map((r) => JSON.stringify(r.game)));
+    expect(keys.size).toBe(ranked.length);
+    for (const g of expected.get(180) ?? [])
+      expect(keys.has(JSON.stringify(g))).toBe(true);
+  });
+
+  it("확률 합은 목표 조합의 확률을 모두 더한 값", () => {
+    const prob = (f: Frame) => 1 / (f.length + 1);
+    let sum = 0;
+    for (const g of expected.get(180) ?? [])
+      sum += g.reduce((p, f) => p * prob(f), 1);
+    expect(solutionMass(table, 180, prob)).toBeCloseTo(sum, 12);
+  });
+});
+
+describe("assistTarget", () => {
+  it("남은 빈칸, 조합 수, 마크가 가장 적은 길", () => {
+    const a = assistTarget(fixed, 180, pools);
+    const table = buildSolveTable(fixed, pools);
+    expect(a.open).toEqual([2, 9]);
+    expect(a.ways).toBe(countSolutions(table, 180));
+    expect(a.path && scoreGame(a.path)).toBe(180);
+    // 전수 조사한 조합 중 빈칸 마크 수가 가장 적은 값
+    const fewest = Math.min(
+      ...(bruteForce()
+        .get(180)
+        ?.map((g) => [2, 9].filter((i) => isMarkFrame(g[i], i)).length) ?? [])
+    );
+    expect(a.minMarks).toBe(fewest);
+  });
+
+  it("닿을 수 없으면 길 없음", () => {
+    const a = assistTarget(fixed, 300, pools);
+    expect(a).toEqual({ open: [2, 9], ways: 0n, minMarks: null, path: null });
+  });
+});
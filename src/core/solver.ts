@@ -0,0 +1,309 @@
+import type { Frame } from "./bowling";
+import { frameRealism, isSpareFrame, isStrikeFrame } from "./realism";
+
+/**
+ * 목표 점수 역산 – 빈 프레임(어느 위치든)을 채워 목표 점수 만들기
+ * - 앞 프레임에서 넘어온 보너스를 (다음 구 배수, 그다음 구 배수) 상태로 들고 감
+ *   가능한 상태: (0,0) 보너스 없음 · (1,0) 스페어 · (1,1) 스트라이크 · (2,1) 더블
+ * - 뒤에서부터 DP: ways[i][상태][점수] = i프~10프로 그 점수를 만드는 조합 수
+ * - 나열은 앞에서부터, 목표에 닿을 수 있는 가지만 따라감 → 막다른 탐색 없음
+ * - 조합 수는 BigInt로 정확히 셈 (전부 빈칸이어도 66^9 × 241 < 2^64)
+ * - 순위 나열: 프레임별 가중치 합이 큰 순서로 전체 조합을 하나씩 (최선 우선 탐색)
+ * - 실시간 도우미: 목표에 닿는 조합 수 + 마크가 가장 적은 길
+ */
+
+export const MAX_SCORE = 300;
+
+// [다음 구 배수, 그다음 구 배수]
+const CARRIES = [
+  [0, 0],
+  [1, 0],
+  [1, 1],
+  [2, 1],
+] as const;
+
+type Carry = number; // CARRIES 인덱스
+
+function carryIndex(m1: number, m2: number): Carry {
+  return CARRIES.findIndex(([a, b]) => a === m1 && b === m2);
+}
+
+export type FramePools = {
+  normal: Frame[]; // 1~9프 후보
+  tenth: Frame[]; // 10프 후보
+};
+
+// 프레임 하나의 점수 기여(앞 프레임 보너스 포함)와 다음 상태
+export function frameStep(
+  f: Frame,
+  idx: number,
+  carry: Carry
+): { points: number; next: Carry } {
+  const [m1, m2] = CARRIES[carry];
+  const [a, b = 0, c = 0] = f;
+  if (idx === 9) return { points: a * (1 + m1) + b * (1 + m2) + c, next: 0 };
+  if (a === 10) return { points: 10 * (1 + m1), next: carryIndex(m2 + 1, 1) };
+  const points = a * (1 + m1) + b * (1 + m2);
+  return { points, next: a + b === 10 ? 1 : 0 };
+}
+
+export type SolveTable = {
+  candidates: Frame[][]; // 프레임별 후보 (고정이면 그 하나)
+  ways: BigUint64Array[][]; // ways[i][carry][score]
+};
+
+export function buildSolveTable(
+  fixed: (Frame | null)[],
+  pools: FramePools
+): SolveTable {
+  const candidates = Array.from({ length: 10 }, (_, i) =>
+    fixed[i] ? [fixed[i]!] : i === 9 ? pools.tenth : pools.normal
+  );
+  const ways: BigUint64Array[][] = Array.from({ length: 11 }, () =>
+    CARRIES.map(() => new BigUint64Array(MAX_SCORE + 1))
+  );
+  for (const w of ways[10]) w[0] = 1n;
+
+  for (let i = 9; i >= 0; i--) {
+    for (let carry = 0; carry < CARRIES.length; carry++) {
+      const out = ways[i][carry];
+      for (const f of candidates[i]) {
+        const { points, next } = frameStep(f, i, carry);
+        const rest = ways[i + 1][next];
+        for (let v = 0; v + points <= MAX_SCORE; v++)
+          if (rest[v]) out[v + points] += rest[v];
+      }
+    }
+  }
+  return { candidates, ways };
+}
+
+// 목표 점수를 만드는 조합 수
+export function countSolutions(table: SolveTable, target: number): bigint {
+  if (target < 0 || target > MAX_SCORE) return 0n;
+  return table.ways[0][0][target];
+}
+
+// 목표 점수를 만드는 10프 전체 조합을 후보 순서대로 하나씩
+export function* enumerateSolutions(
+  table: SolveTable,
+  target: number
+): Generator<Frame[]> {
+  if (!countSolutions(table, target)) return;
+  const game: Frame[] = [];
+  function* walk(
+    i: number,
+    carry: Carry,
+    remaining: number
+  ): Generator<Frame[]> {
+    if (i === 10) {
+      yield [...game];
+      return;
+    }
+    for (const f of table.candidates[i]) {
+      const { points, next } = frameStep(f, i, carry);
+      if (points > remaining || !table.ways[i + 1][next][remaining - points])
+        continue;
+      game.push(f);
+      yield* walk(i + 1, next, remaining - points);
+      game.pop();
+    }
+  }
+  yield* walk(0, 0, target);
+}
+
+/* -------------------- 가중치 순위 나열 -------------------- */
+// 프레임 하나의 가중치 (클수록 앞) – 직전 프레임이 스트라이크였는지만 볼 수 있음
+export type FrameWeight = (
+  f: Frame,
+  idx: number,
+  afterStrike: boolean
+) => number;
+
+export type RankedSolution = { game: Frame[]; weight: number };
+
+type SearchNode = {
+  i: number;
+  carry: Carry;
+  remaining: number;
+  acc: number; // 지금까지 가중치 합
+  bound: number; // acc + 남은 프레임으로 낼 수 있는 최대 가중치
+  frame: Frame | null;
+  parent: SearchNode | null;
+};
+
+// 우선순위: bound 큰 것 먼저, 같으면 더 깊이 들어간 것 먼저 (해답에 빨리 닿게)
+function before(a: SearchNode, b: SearchNode) {
+  return a.bound !== b.bound ? a.bound > b.bound : a.i > b.i;
+}
+
+function heapPush(heap: SearchNode[], node: SearchNode) {
+  heap.push(node);
+  let k = heap.length - 1;
+  while (k > 0) {
+    const up = (k - 1) >> 1;
+    if (!before(heap[k], heap[up])) break;
+    [heap[k], heap[up]] = [heap[up], heap[k]];
+    k = up;
+  }
+}
+
+function heapPop(heap: SearchNode[]): SearchNode | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length && last) {
+    heap[0] = last;
+    let k = 0;
+    for (;;) {
+      const l = 2 * k + 1;
+      const r = l + 1;
+      let m = k;
+      if (l < heap.length && before(heap[l], heap[m])) m = l;
+      if (r < heap.length && before(heap[r], heap[m])) m = r;
+      if (m === k) break;
+      [heap[k], heap[m]] = [heap[m], heap[k]];
+      k = m;
+    }
+  }
+  return top;
+}
+
+/**
+ * 목표 점수를 만드는 전체 조합을 가중치 합이 큰 순서로 하나씩
+ * - best[i][carry][남은 점수] = i프~10프에서 얻을 수 있는 최대 가중치 (뒤에서부터 DP)
+ * - best가 정확한 상한이라 꺼낸 순서가 곧 전체 순위 → 필요한 만큼만 꺼내 쓰면 됨
+ */
+export function* rankedSolutions(
+  table: SolveTable,
+  target: number,
+  weight: FrameWeight
+): Generator<RankedSolution> {
+  if (!countSolutions(table, target)) return;
+
+  const afterStrike = (carry: Carry) => CARRIES[carry][1] === 1;
+  const best: Float64Array[][] = Array.from({ length: 11 }, () =>
+    CARRIES.map(() => new Float64Array(MAX_SCORE + 1).fill(-Infinity))
+  );
+  for (const b of best[10]) b[0] = 0;
+  // 후보별 (점수, 다음 상태, 가중치)는 나열할 때도 다시 씀
+  const steps = table.candidates.map((cands, i) =>
+    CARRIES.map((_, carry) =>
+      cands.map((f) => ({
+        f,
+        ...frameStep(f, i, carry),
+        w: weight(f, i, afterStrike(carry)),
+      }))
+    )
+  );
+  for (let i = 9; i >= 0; i--) {
+    for (let carry = 0; carry < CARRIES.length; carry++) {
+      const out = best[i][carry];
+      for (const { points, next, w } of steps[i][carry]) {
+        const rest = best[i + 1][next];
+        for (let v = 0; v + points <= MAX_SCORE; v++)
+          if (rest[v] + w > out[v + points]) out[v + points] = rest[v] + w;
+      }
+    }
+  }
+
+  const heap: SearchNode[] = [];
+  heapPush(heap, {
+    i: 0,
+    carry: 0,
+    remaining: target,
+    acc: 0,
+    bound: best[0][0][target],
+    frame: null,
+    parent: null,
+  });
+  for (let node = heapPop(heap); node; node = heapPop(heap)) {
+    if (node.i === 10) {
+      const game: Frame[] = [];
+      for (let n: SearchNode | null = node; n?.frame; n = n.parent)
+        game.unshift(n.frame);
+      yield { game, weight: node.acc };
+      continue;
+    }
+    for (const { f, points, next, w } of steps[node.i][node.carry]) {
+      if (points > node.remaining) continue;
+      const rest = best[node.i + 1][next][node.remaining - points];
+      if (rest === -Infinity) continue;
+      heapPush(heap, {
+        i: node.i + 1,
+        carry: next,
+        remaining: node.remaining - points,
+        acc: node.acc + w,
+        bound: node.acc + w + rest,
+        frame: f,
+        parent: node,
+      });
+    }
+  }
+}
+
+/**
+ * 목표 점수를 만드는 조합 전체의 확률 합 (prob = 프레임 확률)
+ * - 솔루션 하나의 확률 ÷ 이 값 = 목표에 닿는 경우 중 그 솔루션의 비중
+ */
+export function solutionMass(
+  table: SolveTable,
+  target: number,
+  prob: (f: Frame, idx: number) => number
+): number {
+  if (target < 0 || target > MAX_SCORE) return 0;
+  const mass: Float64Array[][] = Array.from({ length: 11 }, () =>
+    CARRIES.map(() => new Float64Array(MAX_SCORE + 1))
+  );
+  for (const m of mass[10]) m[0] = 1;
+  for (let i = 9; i >= 0; i--) {
+    const probs = table.candidates[i].map((f) => prob(f, i));
+    for (let carry = 0; carry < CARRIES.length; carry++) {
+      const out = mass[i][carry];
+      table.candidates[i].forEach((f, k) => {
+        const { points, next } = frameStep(f, i, carry);
+        const rest = mass[i + 1][next];
+        for (let v = 0; v + points <= MAX_SCORE; v++)
+          if (rest[v]) out[v + points] += probs[k] * rest[v];
+      });
+    }
+  }
+  return mass[0][0][target];
+}
+
+/* -------------------- 실시간 도우미 -------------------- */
+// 마크 = 스트라이크/스페어 (10프는 첫 두 구 기준)
+export function isMarkFrame(f: Frame, idx: number) {
+  return idx === 9 ? f.length === 3 : isStrikeFrame(f) || isSpareFrame(f);
+}
+
+// 가장 쉬운 길: 마크가 적을수록 → 그중 스트라이크가 적을수록 → 그다음은 현실성
+function simplicity(f: Frame, idx: number, afterStrike: boolean) {
+  const strikes = f.filter((p) => p === 10).length;
+  return (
+    -10000 * Number(isMarkFrame(f, idx)) -
+    1000 * strikes +
+    frameRealism(f, idx, afterStrike)
+  );
+}
+
+export type Assist = {
+  open: number[]; // 아직 모르는 프레임
+  ways: bigint; // 목표에 딱 닿는 조합 수
+  minMarks: number | null; // 남은 프레임 중 최소 마크 수 (닿을 수 없으면 null)
+  path: Frame[] | null; // 가장 쉬운 길 (10프 전체)
+};
+
+export function assistTarget(
+  fixed: (Frame | null)[],
+  target: number,
+  pools: FramePools
+): Assist {
+  const open = fixed.flatMap((f, i) => (f ? [] : [i]));
+  const table = buildSolveTable(fixed, pools);
+  const ways = countSolutions(table, target);
+  const best = rankedSolutions(table, target, simplicity).next();
+  if (best.done) return { open, ways, minMarks: null, path: null };
+  const path = best.value.game;
+  const minMarks = open.filter((i) => isMarkFrame(path[i], i)).length;
+  return { open, ways, minMarks, path };
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { parseGameLine, scoreGame } from "./bowling";
+import type { PlayedGame } from "./history";
+import {
+  allPlayerStats,
+  dailyAverages,
+  frameResult,
+  playerGames,
+  playerStats,
+  scoreTrend,
+} from "./stats";
+
+let seq = 0;
+function played(player: string, date: string, line: string): PlayedGame {
+  const { frames } = parseGameLine(line, "strict");
+  return { id: `g${seq++}`, player, date, frames, score: scoreGame(frames) };
+}
+
+const perfect = "X X X X X X X X X XXX";
+const nines = "9/ 9/ 9/ 9/ 9/ 9/ 9/ 9/ 9/ 9/9";
+const opens = "9- 9- 9- 9- 9- 9- 9- 9- 9- 9-";
+
+describe("frameResult", () => {
+  it.each([
+    [[10], 0, "strike"],
+    [[9, 1], 0, "spare"],
+    [[9, 0], 0, "open"],
+    [[10, 10, 10], 9, "strike"],
+    [[10, 7, 2], 9, "strike"],
+    [[0, 10, 5], 9, "spare"],
+    [[7, 2], 9, "open"],
+  ] as const)("%j (%i프) → %s", (f, idx, result) => {
+    expect(frameResult([...f], idx)).toBe(result);
+  });
+});
+
+describe("playerStats", () => {
+  it("게임이 없으면 null", () => {
+    expect(playerStats("김", [])).toBeNull();
+  });
+
+  it("점수/마크 비율/10프", () => {
+    const games = [
+      played("김", "2026-01-02", perfect),
+      played("김", "2026-01-01", nines),
+      played("김", "2026-01-03", opens),
+    ];
+    const s = playerStats("김", games)!;
+    expect(s.games).toBe(3);
+    expect(s.average).toBeCloseTo((300 + 190 + 90) / 3);
+    expect(s.high).toBe(300);
+    expect(s.low).toBe(90);
+    expect(s.strikeRate).toBeCloseTo(10 / 30);
+    expect(s.spareRate).toBeCloseTo(10 / 30);
+    expect(s.openRate).toBeCloseTo(10 / 30);
+    expect(s.spareConversion).toBeCloseTo(0.5);
+    expect(s.tenthMarkRate).toBeCloseTo(2 / 3);
+    expect(s.tenthAverage).toBeCloseTo((30 + 19 + 9) / 3);
+    expect(s.firstDate).toBe("2026-01-01");
+    expect(s.lastDate).toBe("2026-01-03");
+  });
+
+  it("표준편차와 추세", () => {
+    const same = [1, 2, 3].map((d) => played("이", `2026-02-0${d}`, nines));
+    expect(playerStats("이", same)!.stdDev).toBe(0);
+    expect(playerStats("이", same)!.trend).toBe(0);
+
+    const rising = [
+      played("박", "2026-03-01", opens),
+      played("박", "2026-03-02", nines),
+      played("박", "2026-03-03", perfect),
+    ];
+    const s = playerStats("박", rising)!;
+    expect(s.trend).toBeCloseTo(105);
+    const m = (90 + 190 + 300) / 3;
+    expect(s.stdDev).toBeCloseTo(
+      Math.sqrt(((90 - m) ** 2 + (190 - m) ** 2 + (300 - m) ** 2) / 3)
+    );
+  });
+});
+
+describe("history helpers", () => {
+  const history = [
+    played("김", "2026-01-02", nines),
+    played("이", "2026-01-01", opens),
+    played("김", "2026-01-01", perfect),
+    played("김", "2026-01-01", opens),
+  ];
+
+  it("선수별 날짜순, 같은 날은 기록 순서", () => {
+    expect(playerGames(history, "김").map((g) => g.score)).toEqual([
+      300, 90, 190,
+    ]);
+  });
+
+  it("모든 선수 통계는 게임 수 많은 순", () => {
+    expect(allPlayerStats(history).map((s) => [s.player, s.games])).toEqual([
+      ["김", 3],
+      ["이", 1],
+    ]);
+  });
+
+  it("이동 평균", () => {
+    const trend = scoreTrend(playerGames(history, "김"), 2);
+    expect(trend.map((t) => t.rolling)).toEqual([300, 195, 140]);
+  });
+
+  it("날짜별 에버", () => {
+    expect(dailyAverages(playerGames(history, "김"))).toEqual([
+      { date: "2026-01-01", games: 2, average: 195, high: 300 },
+      { date: "2026-01-02", games: 1, average: 190, high: 190 },
+    ]);
+  });
+});
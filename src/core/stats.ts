@@ -0,0 +1,152 @@
+import type { Frame } from "./bowling";
+import { historyPlayers, type PlayedGame } from "./history";
+import { isOpenFrame, isStrikeFrame, isTenthLikeStrike } from "./realism";
+
+/**
+ * 선수 통계 – 게임 기록(core/history)의 프레임에서 계산
+ * - 프레임 결과: 1~9프는 isStrikeFrame/isSpareFrame/isOpenFrame, 10프는 첫 랙 기준
+ * - 스트라이크/스페어/오픈 비율은 전체 프레임 대비 (셋을 더하면 100%)
+ * - 스페어 처리율: 스트라이크를 못 한 프레임 중 스페어
+ * - 10프 마무리: 10프에서 마크(스트라이크/스페어)한 비율, 10프 평균 핀
+ * - 꾸준함: 점수 표준편차 · 추세: 게임당 점수 변화 (최소제곱 기울기)
+ */
+
+export type FrameResult = "strike" | "spare" | "open";
+
+export function frameResult(f: Frame, idx: number): FrameResult {
+  if (isOpenFrame(f)) return "open";
+  if (isStrikeFrame(f) || (idx === 9 && isTenthLikeStrike(f))) return "strike";
+  return "spare"; // isSpareFrame / isTenthLikeSpare
+}
+
+export type PlayerStats = {
+  player: string;
+  games: number;
+  average: number;
+  high: number;
+  low: number;
+  stdDev: number;
+  strikeRate: number; // 0~1
+  spareRate: number;
+  openRate: number;
+  spareConversion: number;
+  tenthMarkRate: number;
+  tenthAverage: number; // 10프에서 쓰러뜨린 핀 (보너스 구 포함)
+  trend: number; // 게임당 점수 변화
+  firstDate: string;
+  lastDate: string;
+};
+
+const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+
+function stdDev(xs: number[]) {
+  const m = mean(xs);
+  return Math.sqrt(mean(xs.map((x) => (x - m) ** 2)));
+}
+
+// 순서대로 놓은 점수의 최소제곱 기울기
+function slope(ys: number[]) {
+  if (ys.length < 2) return 0;
+  const xm = (ys.length - 1) / 2;
+  const ym = mean(ys);
+  let num = 0;
+  let den = 0;
+  ys.forEach((y, x) => {
+    num += (x - xm) * (y - ym);
+    den += (x - xm) ** 2;
+  });
+  return num / den;
+}
+
+// 한 선수의 게임, 날짜 오름차순 (같은 날짜는 기록 순서 유지)
+export function playerGames(history: PlayedGame[], player: string) {
+  return history
+    .filter((g) => g.player === player)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function playerStats(
+  player: string,
+  games: PlayedGame[]
+): PlayerStats | null {
+  if (games.length === 0) return null;
+  const scores = games.map((g) => g.score);
+  const counts: Record<FrameResult, number> = { strike: 0, spare: 0, open: 0 };
+  let tenthMarks = 0;
+  for (const g of games)
+    g.frames.forEach((f, i) => {
+      const r = frameResult(f, i);
+      counts[r]++;
+      if (i === 9 && r !== "open") tenthMarks++;
+    });
+  const frames = games.length * 10;
+  const dates = games.map((g) => g.date).sort();
+  return {
+    player,
+    games: games.length,
+    average: mean(scores),
+    high: Math.max(...scores),
+    low: Math.min(...scores),
+    stdDev: stdDev(scores),
+    strikeRate: counts.strike / frames,
+    spareRate: counts.spare / frames,
+    openRate: counts.open / frames,
+    spareConversion:
+      counts.spare + counts.open > 0
+        ? counts.spare / (counts.spare + counts.open)
+        : 0,
+    tenthMarkRate: tenthMarks / games.length,
+    tenthAverage: mean(
+      games.map((g) => g.frames[9].reduce((s, p) => s + p, 0))
+    ),
+    trend: slope(scores),
+    firstDate: dates[0],
+    lastDate: dates[dates.length - 1],
+  };
+}
+
+// 기록이 있는 모든 선수 (게임 수 많은 순)
+export function allPlayerStats(history: PlayedGame[]): PlayerStats[] {
+  return historyPlayers(history).map(
+    ({ name }) => playerStats(name, playerGames(history, name))!
+  );
+}
+
+/* -------------------- 시간에 따른 변화 -------------------- */
+export type TrendPoint = {
+  date: string;
+  score: number;
+  rolling: number; // 이 게임까지 최근 window게임 평균
+};
+
+export function scoreTrend(games: PlayedGame[], window = 5): TrendPoint[] {
+  const size = Math.max(1, Math.floor(window));
+  return games.map((g, i) => ({
+    date: g.date,
+    score: g.score,
+    rolling: mean(
+      games.slice(Math.max(0, i + 1 - size), i + 1).map((x) => x.score)
+    ),
+  }));
+}
+
+export type DailyAverage = {
+  date: string;
+  games: number;
+  average: number;
+  high: number;
+};
+
+export function dailyAverages(games: PlayedGame[]): DailyAverage[] {
+  const byDate = new Map<string, number[]>();
+  for (const g of games)
+    byDate.set(g.date, [...(byDate.get(g.date) ?? []), g.score]);
+  return [...byDate]
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([date, scores]) => ({
+      date,
+      games: scores.length,
+      average: mean(scores),
+      high: Math.max(...scores),
+    }));
+}
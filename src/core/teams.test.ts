@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { createRng } from "./random";
+import {
+  decideTeamCount,
+  makeTeams,
+  optimizeTeams,
+  planSession,
+  scratch,
+  snakeOrder,
+  targetSizes,
+  teamSpread,
+  cloneTeams,
+  type PairConstraint,
+  type Player,
+  type Team,
+} from "./teams";
+
+function roster(n: number, seed = "roster"): Player[] {
+  const rng = createRng(seed);
+  return Array.from({ length: n }, (_, i) => ({
+    name: `P${i + 1}`,
+    avg: 100 + Math.floor(rng() * 120),
+  }));
+}
+
+const names = (teams: Team[]) =>
+  teams.flatMap((t) => t.players.map((p) => p.name)).sort();
+const teamOf = (teams: Team[], name: string) =>
+  teams.findIndex((t) => t.players.some((p) => p.name === name));
+
+describe("decideTeamCount / targetSizes", () => {
+  it("최소 2팀, 테이블 최대 인원으로 올림", () => {
+    expect(decideTeamCount(0, 6)).toBe(0);
+    expect(decideTeamCount(3, 6)).toBe(2);
+    expect(decideTeamCount(12, 6)).toBe(2);
+    expect(decideTeamCount(13, 6)).toBe(3);
+    expect(decideTeamCount(13, 0)).toBe(7); // 최대 인원은 최소 2로
+  });
+
+  it("팀 인원 차이는 최대 1명이고 합은 참가자 수", () => {
+    for (let n = 2; n <= 40; n++)
+      for (const max of [2, 3, 4, 5, 6, 8]) {
+        const sizes = targetSizes(n, decideTeamCount(n, max), max);
+        expect(sizes.reduce((a, b) => a + b, 0)).toBe(n);
+        expect(Math.max(...sizes) - Math.min(...sizes)).toBeLessThanOrEqual(1);
+        expect(Math.max(...sizes)).toBeLessThanOrEqual(max);
+      }
+  });
+
+  it("정원 안에 못 담으면 오류", () => {
+    expect(() => targetSizes(10, 2, 4)).toThrow();
+  });
+});
+
+describe("snakeOrder", () => {
+  it("앞으로 갔다가 되돌아옴", () => {
+    expect(snakeOrder(3)).toEqual([0, 1, 2, 2, 1, 0]);
+  });
+});
+
+describe("makeTeams", () => {
+  it("모든 선수를 한 번씩, 정해진 인원대로", () => {
+    const players = roster(17);
+    const { teams, sizes, errors } = makeTeams(players, 5);
+    expect(errors).toEqual([]);
+    expect(names(teams)).toEqual(players.map((p) => p.name).sort());
+    teams.forEach((t, i) => expect(t.players.length).toBe(sizes[i]));
+  });
+
+  it("같이/따로 조건을 지킴", () => {
+    const players = roster(12);
+    const constraints: PairConstraint[] = [
+      { kind: "together", a: "P1", b: "P2" },
+      { kind: "together", a: "P2", b: "P3" },
+      { kind: "apart", a: "P1", b: "P4" },
+      { kind: "apart", a: "P5", b: "P6" },
+    ];
+    const { teams, errors } = makeTeams(players, 4, scratch, constraints);
+    expect(errors).toEqual([]);
+    expect(teamOf(teams, "P1")).toBe(teamOf(teams, "P2"));
+    expect(teamOf(teams, "P2")).toBe(teamOf(teams, "P3"));
+    expect(teamOf(teams, "P1")).not.toBe(teamOf(teams, "P4"));
+    expect(teamOf(teams, "P5")).not.toBe(teamOf(teams, "P6"));
+  });
+
+  it("서로 모순인 조건은 오류로 알리고 기본 배치", () => {
+    const players = roster(8);
+    const { teams, errors } = makeTeams(players, 4, scratch, [
+      { kind: "together", a: "P1", b: "P2" },
+      { kind: "apart", a: "P1", b: "P2" },
+    ]);
+    expect(errors.length).toBeGreaterThan(0);
+    expect(names(teams)).toHaveLength(8);
+  });
+});
+
+describe("optimizeTeams", () => {
+  it("스네이크 배치보다 편차가 크지 않고 인원/조건 유지", () => {
+    for (const [n, max] of [
+      [8, 4],
+      [11, 4],
+      [20, 5],
+      [30, 6],
+    ]) {
+      const players = roster(n, `opt-${n}`);
+      const constraints: PairConstraint[] = [
+        { kind: "apart", a: "P1", b: "P2" },
+      ];
+      const { teams } = makeTeams(players, max, scratch, constraints);
+      const before = teamSpread(teams);
+      const sizes = teams.map((t) => t.players.length);
+      const opt = optimizeTeams(cloneTeams(teams), scratch, constraints);
+      expect(teamSpread(opt)).toBeLessThanOrEqual(before + 1e-9);
+      expect(names(opt)).toEqual(players.map((p) => p.name).sort());
+      opt.forEach((t) =>
+        expect(t.players.length).toBeLessThanOrEqual(t.sizeLimit)
+      );
+      expect(opt.map((t) => t.players.length).sort()).toEqual(sizes.sort());
+      expect(teamOf(opt, "P1")).not.toBe(teamOf(opt, "P2"));
+    }
+  });
+
+  it("최대 인원까지 허용한 배치에서도 팀을 비우지 않음", () => {
+    // A~D를 같이 묶으면 목표 인원 3/3으로는 안 돼서 최대 6명씩으로 다시 배치
+    const players: Player[] = ["A", "B", "C", "D", "E", "F"].map((name, i) => ({
+      name,
+      avg: 200 - i * 10,
+    }));
+    const constraints: PairConstraint[] = [
+      { kind: "together", a: "A", b: "B" },
+      { kind: "together", a: "B", b: "C" },
+      { kind: "together", a: "C", b: "D" },
+    ];
+    const { teams } = makeTeams(players, 6, scratch, constraints);
+    expect(teams.map((t) => t.players.length)).toEqual([4, 2]);
+    const opt = optimizeTeams(cloneTeams(teams), scratch, constraints);
+    expect(opt.every((t) => t.players.length > 0)).toBe(true);
+    expect(names(opt)).toEqual(["A", "B", "C", "D", "E", "F"]);
+    expect(teamOf(opt, "A")).toBe(teamOf(opt, "D"));
+    for (const g of planSession(players, 6, scratch, constraints, 2))
+      expect(g.teams.every((t) => t.players.length > 0)).toBe(true);
+  });
+});
+
+describe("planSession", () => {
+  it("게임 수만큼, 게임마다 모든 선수를 배치", () => {
+    const players = roster(12, "session");
+    const games = planSession(players, 4, scratch, [], 3);
+    expect(games).toHaveLength(3);
+    for (const g of games)
+      expect(names(g.teams)).toEqual(players.map((p) => p.name).sort());
+    expect(games[0].pairRepeats).toBe(0);
+  });
+});
@@ -0,0 +1,569 @@
+import { countPairRepeats } from "./pairs";
+import { playerHandicap, type HandicapConfig } from "./handicap";
+
+/**
+ * 에버 기반 팀 나누기 (일반 모드)
+ * - 팀 수 = ceil(n / 테이블 최대 인원), 최소 2팀 · 팀 인원 차이는 최대 1명
+ * - 에버(또는 핸디 포함 전력) 내림차순 시드 → 스네이크 순서로 배치
+ * - 같이/따로 조건: 같이 묶인 선수는 한 unit으로, 따로는 unit 쌍 제약으로 처리
+ * - 최적화: 팀 평균 최대-최소 차이(+ 이전 게임과 겹치는 페어 벌점) 최소화
+ */
+
+// ---------- Types ----------
+export type Player = { name: string; avg: number };
+export type Team = { idx: number; players: Player[]; sizeLimit: number };
+// 같이(together): 같은 팀, 따로(apart): 다른 팀
+export type PairConstraint = {
+  kind: "together" | "apart";
+  a: string;
+  b: string;
+};
+// 팀 밸런싱에 쓰는 선수 전력 값 (기본: 스크래치 에버)
+export type StrengthFn = (p: Player) => number;
+
+// ---------- Strength ----------
+export const scratch: StrengthFn = (p) => p.avg;
+
+export function handicapStrength(cfg: HandicapConfig): StrengthFn {
+  return (p) => p.avg + playerHandicap(p, cfg);
+}
+
+// ---------- Core Logic ----------
+export function decideTeamCount(n: number, maxPerTable: number) {
+  // ceil로 바꿔서 항상 총 수용 인원이 참가자 이상이 되게
+  const cap = Math.max(2, Math.min(12, Math.floor(maxPerTable))); // 최소 2, 최대 12 같은 가드
+  if (n <= 0) return 0;
+  return Math.max(2, Math.ceil(n / cap));
+}
+
+export function targetSizes(
+  n: number,
+  teams: number,
+  maxPerTable: number
+): number[] {
+  // base even split
+  const base = Math.floor(n / teams);
+  let rem = n % teams; // first `rem` teams get +1
+  const sizes = Array.from({ length: teams }, () => base);
+  for (let i = 0; i < teams; i++) {
+    if (rem > 0) {
+      sizes[i] += 1;
+      rem--;
+    }
+  }
+  // ensure none exceed max
+  for (let i = 0; i < teams; i++) {
+    if (sizes[i] > maxPerTable) {
+      // push overflow to later teams (or previous if needed)
+      let overflow = sizes[i] - maxPerTable;
+      sizes[i] = maxPerTable;
+      let j = i + 1;
+      while (overflow > 0 && j < teams) {
+        const canTake = Math.min(maxPerTable - sizes[j], overflow);
+        sizes[j] += canTake;
+        overflow -= canTake;
+        j++;
+      }
+      // if still overflow, go backwards
+      j = i - 1;
+      while (overflow > 0 && j >= 0) {
+        const canTake = Math.min(maxPerTable - sizes[j], overflow);
+        sizes[j] += canTake;
+        overflow -= canTake;
+        j--;
+      }
+      if (overflow > 0)
+        throw new Error("Cannot fit players within maxPerTable");
+    }
+  }
+  return sizes;
+}
+
+export function snakeOrder(k: number): number[] {
+  // e.g., k=4 => [0,1,2,3, 3,2,1,0, 0,1,2,3, ...]
+  const forward = Array.from({ length: k }, (_, i) => i);
+  const backward = Array.from({ length: k }, (_, i) => k - 1 - i);
+  return [...forward, ...backward];
+}
+
+// 스네이크 순서대로 채우기 (제약 조건 없음)
+function snakeFill(teams: Team[], players: Player[], strength: StrengthFn) {
+  const seeded = [...players].sort((a, b) => strength(b) - strength(a));
+
+  const pattern = snakeOrder(teams.length);
+  let p = 0;
+
+  for (const pl of seeded) {
+    // 먼저 스네이크 순서대로 넣어보고
+    let placed = false;
+    for (let tries = 0; tries < pattern.length; tries++) {
+      const teamIdx = pattern[(p + tries) % pattern.length];
+      if (teams[teamIdx].players.length < teams[teamIdx].sizeLimit) {
+        teams[teamIdx].players.push(pl);
+        placed = true;
+        p = (p + tries + 1) % pattern.length;
+        break;
+      }
+    }
+    // 그래도 못 넣으면, 남는 팀 아무 데나 (절대 throw 안 함)
+    if (!placed) {
+      const t = teams.find((t) => t.players.length < t.sizeLimit) ?? teams[0];
+      t.players.push(pl);
+    }
+  }
+}
+
+function emptyTeams(sizes: number[]): Team[] {
+  return sizes.map((sizeLimit, idx) => ({ idx, players: [], sizeLimit }));
+}
+
+export function makeTeams(
+  players: Player[],
+  maxPerTable = 6,
+  strength: StrengthFn = scratch,
+  constraints: PairConstraint[] = []
+) {
+  const n = players.length;
+  if (n === 0)
+    return { teams: [], sizes: [], teamCount: 0, errors: [] as string[] };
+
+  // 가드: maxPerTable이 0, 음수, NaN이 들어오지 않게
+  const cap = Math.max(2, Math.min(12, Math.floor(maxPerTable)));
+
+  const teamCount = decideTeamCount(n, cap);
+  const sizes = targetSizes(n, teamCount, cap);
+
+  const errors: string[] = [];
+  if (constraints.length > 0) {
+    const plan = resolveConstraints(players, constraints, cap);
+    errors.push(...plan.errors);
+    if (errors.length === 0) {
+      // 목표 인원으로 안 되면 테이블 최대 인원까지 허용해서 다시 시도
+      const placed =
+        placeUnits(plan, sizes, strength) ??
+        placeUnits(
+          plan,
+          sizes.map(() => cap),
+          strength
+        );
+      if (placed)
+        return {
+          teams: placed,
+          sizes: placed.map((t) => t.sizeLimit),
+          teamCount,
+          errors,
+        };
+      errors.push(
+        `테이블 최대 ${cap}명, ${teamCount}팀으로는 같이/따로 조건을 모두 만족하는 배치가 없습니다`
+      );
+    }
+  }
+
+  // 제약 없음 (또는 만족 불가 → 제약 무시하고 기본 배치)
+  const teams = emptyTeams(sizes);
+  snakeFill(teams, players, strength);
+
+  return { teams, sizes, teamCount, errors };
+}
+
+export function teamAvg(t: Team, strength: StrengthFn = scratch) {
+  if (t.players.length === 0) return 0;
+  const sum = t.players.reduce((s, p) => s + strength(p), 0);
+  return sum / t.players.length;
+}
+
+export function teamTotal(t: Team, strength: StrengthFn = scratch) {
+  return t.players.reduce((s, p) => s + strength(p), 0);
+}
+
+// ---------- Constraints ----------
+// 같이 묶인 선수들은 하나의 unit으로 움직인다 (제약이 없으면 unit = 1명)
+type ConstraintPlan = {
+  units: Player[][];
+  unitOf: Map<Player, number>;
+  apart: Set<string>; // unitKey(i, j)
+  errors: string[];
+};
+
+const unitKey = (i: number, j: number) => (i < j ? `${i}|${j}` : `${j}|${i}`);
+
+/**
+ * 같이(together) 조건은 union-find로 묶고, 따로(apart) 조건은 unit 쌍으로 변환.
+ * 명단에 없는 이름이 들어간 조건은 무시한다.
+ */
+function resolveConstraints(
+  players: Player[],
+  constraints: PairConstraint[],
+  cap: number
+): ConstraintPlan {
+  const byName = new Map<string, Player[]>();
+  for (const p of players)
+    byName.set(p.name, [...(byName.get(p.name) ?? []), p]);
+
+  const parent = new Map<Player, Player>(players.map((p) => [p, p]));
+  const find = (x: Player): Player => {
+    const up = parent.get(x)!;
+    if (up === x) return x;
+    const root = find(up);
+    parent.set(x, root);
+    return root;
+  };
+
+  const active = constraints.filter(
+    (c) => c.a !== c.b && byName.has(c.a) && byName.has(c.b)
+  );
+  for (const c of active) {
+    if (c.kind !== "together") continue;
+    const [a, ...restA] = byName.get(c.a)!;
+    for (const other of [...restA, ...byName.get(c.b)!])
+      parent.set(find(other), find(a));
+  }
+
+  const byRoot = new Map<Player, Player[]>();
+  for (const p of players) {
+    const r = find(p);
+    byRoot.set(r, [...(byRoot.get(r) ?? []), p]);
+  }
+  const units = [...byRoot.values()];
+  const unitOf = new Map<Player, number>();
+  units.forEach((u, i) => u.forEach((p) => unitOf.set(p, i)));
+
+  const errors: string[] = [];
+  for (const u of units) {
+    if (u.length > cap)
+      errors.push(
+        `${u.map((p) => p.name).join(", ")}: 같이 묶인 ${
+          u.length
+        }명이 테이블 최대 인원 ${cap}명을 넘습니다`
+      );
+  }
+
+  const apart = new Set<string>();
+  for (const c of active) {
+    if (c.kind !== "apart") continue;
+    for (const pa of byName.get(c.a)!) {
+      for (const pb of byName.get(c.b)!) {
+        const i = unitOf.get(pa)!;
+        const j = unitOf.get(pb)!;
+        if (i === j) {
+          errors.push(`${c.a} ↔ ${c.b}: 같이/따로 조건이 서로 충돌합니다`);
+        } else apart.add(unitKey(i, j));
+      }
+    }
+  }
+
+  return { units, unitOf, apart, errors: [...new Set(errors)] };
+}
+
+function hasConflict(plan: ConstraintPlan, unitIdx: number, members: Player[]) {
+  for (const p of members) {
+    const j = plan.unitOf.get(p);
+    if (j === undefined || j === unitIdx) continue;
+    if (plan.apart.has(unitKey(unitIdx, j))) return true;
+  }
+  return false;
+}
+
+function unitStrength(unit: Player[], strength: StrengthFn) {
+  return unit.reduce((s, p) => s + strength(p), 0);
+}
+
+// 큰 묶음부터, 같은 크기면 전력 높은 순
+function unitOrder(plan: ConstraintPlan, strength: StrengthFn) {
+  return plan.units
+    .map((_, i) => i)
+    .sort(
+      (a, b) =>
+        plan.units[b].length - plan.units[a].length ||
+        unitStrength(plan.units[b], strength) -
+          unitStrength(plan.units[a], strength)
+    );
+}
+
+const PLACE_STEP_LIMIT = 200_000;
+
+// 스네이크 순서를 따르되 자리/따로 조건이 안 맞으면 다음 팀으로, 막히면 백트래킹
+function placeUnits(
+  plan: ConstraintPlan,
+  sizes: number[],
+  strength: StrengthFn
+): Team[] | null {
+  const teams = emptyTeams(sizes);
+  const order = unitOrder(plan, strength);
+  const pattern = snakeOrder(teams.length);
+  let steps = 0;
+
+  const place = (k: number, p: number): boolean => {
+    if (k === order.length) return true;
+    if (++steps > PLACE_STEP_LIMIT) return false;
+    const u = order[k];
+    const unit = plan.units[u];
+    const tried = new Set<number>();
+    for (let tries = 0; tries < pattern.length; tries++) {
+      const teamIdx = pattern[(p + tries) % pattern.length];
+      if (tried.has(teamIdx)) continue;
+      tried.add(teamIdx);
+      const t = teams[teamIdx];
+      if (t.players.length + unit.length > t.sizeLimit) continue;
+      if (hasConflict(plan, u, t.players)) continue;
+      t.players.push(...unit);
+      if (place(k + 1, (p + tries + 1) % pattern.length)) return true;
+      t.players.length -= unit.length;
+    }
+    return false;
+  };
+
+  return place(0, 0) ? teams : null;
+}
+
+// ---------- Optimizer ----------
+// 팀 평균 최대-최소 차이(spread). 작을수록 균형.
+export function teamSpread(teams: Team[], strength: StrengthFn = scratch) {
+  const avgs = teams
+    .filter((t) => t.players.length > 0)
+    .map((t) => teamAvg(t, strength));
+  if (avgs.length < 2) return 0;
+  return Math.max(...avgs) - Math.min(...avgs);
+}
+
+// spread가 같을 때 비교용 보조 지표 (전체 평균 대비 제곱 편차 합)
+function teamVariance(teams: Team[], strength: StrengthFn) {
+  const avgs = teams
+    .filter((t) => t.players.length > 0)
+    .map((t) => teamAvg(t, strength));
+  if (avgs.length === 0) return 0;
+  const mean = avgs.reduce((s, a) => s + a, 0) / avgs.length;
+  return avgs.reduce((s, a) => s + (a - mean) ** 2, 0);
+}
+
+const EPS = 1e-9;
+
+// 최적화 목표: spread + penalty(예: 이전 게임과 겹치는 페어 수) 최소화
+type Objective = { strength: StrengthFn; penalty?: (teams: Team[]) => number };
+
+function objectiveCost(teams: Team[], obj: Objective) {
+  return teamSpread(teams, obj.strength) + (obj.penalty?.(teams) ?? 0);
+}
+
+function isBetter(a: Team[], b: Team[], obj: Objective) {
+  const sa = objectiveCost(a, obj);
+  const sb = objectiveCost(b, obj);
+  if (sa < sb - EPS) return true;
+  if (sa > sb + EPS) return false;
+  return teamVariance(a, obj.strength) < teamVariance(b, obj.strength) - EPS;
+}
+
+export function cloneTeams(teams: Team[]): Team[] {
+  return teams.map((t) => ({ ...t, players: [...t.players] }));
+}
+
+// 빈 팀은 spread 계산에서 빠지므로, 시작 배치보다 빈 팀이 늘어나는 배치는 후보에서 제외
+const emptyCount = (teams: Team[]) =>
+  teams.filter((t) => t.players.length === 0).length;
+
+// 인원이 적으면 sizeLimit/제약을 지키는 모든 배치를 전수 탐색
+const EXACT_SEARCH_MAX_PLAYERS = 12;
+
+function exactSearch(
+  teams: Team[],
+  plan: ConstraintPlan,
+  obj: Objective
+): Team[] {
+  const order = unitOrder(plan, obj.strength);
+  const work: Team[] = teams.map((t) => ({ ...t, players: [] }));
+  let best: Team[] = cloneTeams(teams);
+  const maxEmpty = emptyCount(teams);
+
+  const place = (k: number) => {
+    if (k === order.length) {
+      if (emptyCount(work) <= maxEmpty && isBetter(work, best, obj))
+        best = cloneTeams(work);
+      return;
+    }
+    const u = order[k];
+    const unit = plan.units[u];
+    // 같은 크기의 빈 팀은 서로 대칭이므로 하나만 시도
+    const triedEmpty = new Set<number>();
+    for (const t of work) {
+      if (t.players.length + unit.length > t.sizeLimit) continue;
+      if (t.players.length === 0) {
+        if (triedEmpty.has(t.sizeLimit)) continue;
+        triedEmpty.add(t.sizeLimit);
+      }
+      if (hasConflict(plan, u, t.players)) continue;
+      t.players.push(...unit);
+      place(k + 1);
+      t.players.length -= unit.length;
+    }
+  };
+  place(0);
+  return best;
+}
+
+/**
+ * 두 팀 간 같은 크기 unit 교환(제약 없으면 선수 1:1 교환)과,
+ * 자리가 남는 팀으로의 unit 이동을 개선이 없을 때까지 반복.
+ */
+function swapSearch(
+  teams: Team[],
+  plan: ConstraintPlan,
+  obj: Objective
+): Team[] {
+  const { strength, penalty } = obj;
+  let cur = cloneTeams(teams);
+  const unitsIn = (t: Team) => [
+    ...new Set(t.players.map((p) => plan.unitOf.get(p)!)),
+  ];
+  const without = (t: Team, u: number) =>
+    t.players.filter((p) => plan.unitOf.get(p) !== u);
+
+  for (let iter = 0; iter < 1000; iter++) {
+    let bestTeams: Team[] | null = null;
+    const consider = (cand: Team[]) => {
+      if (isBetter(cand, bestTeams ?? cur, obj)) bestTeams = cand;
+    };
+
+    for (let a = 0; a < cur.length; a++) {
+      for (let b = 0; b < cur.length; b++) {
+        if (a === b) continue;
+        for (const u of unitsIn(cur[a])) {
+          const U = plan.units[u];
+          const restA = without(cur[a], u);
+          // 이동 (a가 비게 되는 이동은 제외)
+          if (
+            restA.length > 0 &&
+            cur[b].players.length + U.length <= cur[b].sizeLimit &&
+            !hasConflict(plan, u, cur[b].players)
+          ) {
+            const cand = cloneTeams(cur);
+            cand[a].players = restA;
+            cand[b].players = [...cur[b].players, ...U];
+            consider(cand);
+          }
+          // 교환 (a < b 한 방향만)
+          if (a > b) continue;
+          for (const v of unitsIn(cur[b])) {
+            const V = plan.units[v];
+            if (V.length !== U.length) continue;
+            if (
+              !penalty &&
+              unitStrength(U, strength) === unitStrength(V, strength)
+            )
+              continue;
+            const restB = without(cur[b], v);
+            if (hasConflict(plan, u, restB) || hasConflict(plan, v, restA))
+              continue;
+            const cand = cloneTeams(cur);
+            cand[a].players = [...restA, ...V];
+            cand[b].players = [...restB, ...U];
+            consider(cand);
+          }
+        }
+      }
+    }
+    if (!bestTeams) break;
+    cur = bestTeams;
+  }
+  return cur;
+}
+
+/**
+ * 스네이크 결과를 시작점으로 팀 평균 spread(+ penalty)를 최소화.
+ * - n <= EXACT_SEARCH_MAX_PLAYERS: 전수 탐색
+ * - 그 외: unit 스왑/이동 로컬 서치 (더 이상 개선이 없을 때까지)
+ * 각 팀의 인원은 sizeLimit을 넘지 않고, 같이/따로 조건을 지킨다. 팀을 비우지 않는다.
+ */
+export function optimizeTeams(
+  teams: Team[],
+  strength: StrengthFn = scratch,
+  constraints: PairConstraint[] = [],
+  penalty?: (teams: Team[]) => number
+): Team[] {
+  const players = teams.flatMap((t) => t.players);
+  const n = players.length;
+  if (teams.length < 2 || n === 0) return teams;
+  const cap = Math.max(...teams.map((t) => t.sizeLimit));
+  const plan = resolveConstraints(players, constraints, cap);
+  if (plan.errors.length > 0) return teams;
+  const result =
+    n <= EXACT_SEARCH_MAX_PLAYERS
+      ? exactSearch(teams, plan, { strength, penalty })
+      : swapSearch(teams, plan, { strength, penalty });
+  // 표시용: 팀 내부는 전력 내림차순
+  for (const t of result) t.players.sort((a, b) => strength(b) - strength(a));
+  return result;
+}
+
+// ---------- Session ----------
+export type SessionGame = { teams: Team[]; pairRepeats: number };
+
+// 이전 게임과 겹치는 페어 1쌍을 팀 평균 편차 몇 핀으로 볼지
+const PAIR_REPEAT_PENALTY = 3;
+
+const teamNames = (teams: Team[]) =>
+  teams.map((t) => t.players.map((p) => p.name));
+
+/**
+ * 이전 게임들에서 같은 팀이었던 이름 쌍 (이름 번호 n×n 표)
+ * - 최적화가 후보마다 부르므로 Set 복사/문자열 키 없이 표 조회만
+ * - 게임이 끝날 때마다 add로 누적
+ */
+function pairTable(players: Player[]) {
+  const index = new Map<string, number>();
+  for (const p of players)
+    if (!index.has(p.name)) index.set(p.name, index.size);
+  const n = index.size;
+  const met = new Uint8Array(n * n);
+  const ids = (t: Team) => t.players.map((p) => index.get(p.name)!);
+  return {
+    repeats(teams: Team[]) {
+      let count = 0;
+      for (const t of teams) {
+        const xs = ids(t);
+        for (let i = 0; i < xs.length; i++)
+          for (let j = i + 1; j < xs.length; j++)
+            if (met[xs[i] * n + xs[j]]) count++;
+      }
+      return count;
+    },
+    add(teams: Team[]) {
+      for (const t of teams) {
+        const xs = ids(t);
+        for (const a of xs) for (const b of xs) if (a !== b) met[a * n + b] = 1;
+      }
+    },
+  };
+}
+
+/**
+ * N게임 세션: 게임마다 makeTeams 결과에서 출발해
+ * (팀 평균 편차 + 이전 게임들과 겹치는 페어 수 × PAIR_REPEAT_PENALTY)를 최소화.
+ */
+export function planSession(
+  players: Player[],
+  maxPerTable: number,
+  strength: StrengthFn,
+  constraints: PairConstraint[],
+  games: number
+): SessionGame[] {
+  const { teams: start, errors } = makeTeams(
+    players,
+    maxPerTable,
+    strength,
+    constraints
+  );
+  const active = errors.length > 0 ? [] : constraints;
+
+  const result: SessionGame[] = [];
+  const seen = pairTable(players);
+  const penalty = (teams: Team[]) => seen.repeats(teams) * PAIR_REPEAT_PENALTY;
+  let history = new Set<string>();
+  for (let g = 0; g < games; g++) {
+    const teams = optimizeTeams(cloneTeams(start), strength, active, penalty);
+    const { repeats, pairSet } = countPairRepeats(history, teamNames(teams));
+    history = pairSet;
+    seen.add(teams);
+    result.push({ teams, pairRepeats: repeats });
+  }
+  return result;
+}
@@ -1,105 +1,51 @@
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Link } from "react-router-dom";
+import {
+  formatGameLine,
+  framesToPretty,
+  parseFrameSymbol,
+  parseMarkedFrame,
+  type Frame,
+  type GameLine,
+  type MarkedFrame,
+} from "../core/bowling";
+import {
+  buildFrameModel,
+  modelSummary,
+  type FrameModel,
+} from "../core/frameModel";
+import { historyPlayers } from "../core/history";
+import { evaluateGame, isFrameComplete, pinsStanding } from "../core/scoring";
+import { isMarkFrame, type Assist, type RankedSolution } from "../core/solver";
+import { useHistory } from "../store/history";
+import type { SolveRequest, SolveResponse } from "../workers/solver.worker";
+import BallKeypad from "../components/BallKeypad";
+import FramePicker from "../components/FramePicker";
+import GameLineInput from "../components/GameLineInput";
+import ScoreSheet from "../components/ScoreSheet";
 
 /**
- * CountPage – 목표 점수 역산 (8~10프 수동 입력/자동 보완)
+ * CountPage – 목표 점수 역산 (빈 프레임 자동 보완)
  * - 1~10프 모두 입력 가능
- * - 8~10프 중 비어있는 것만 자동 탐색해서 목표 점수(예: 210)에 맞는 조합 제시
- * - 현실성 정렬(9/ 우대, 연속 X 감점 등) 토글
+ * - 비어 있는 프레임(어느 위치든)을 자동 탐색해서 목표 점수(예: 210)에 맞는 조합 제시
+ *   (보너스 상태 DP로 목표에 닿을 수 없는 가지는 미리 잘라냄 – core/solver)
+ * - 탐색은 웹 워커에서: 찾는 대로 결과를 받아 보여주고, 진행률/중단 버튼
+ * - 목표에 닿는 조합 수를 정확히 세고, 전체 조합을 현실성 순위대로 페이지 단위로 보여줌
+ * - 현실성 정렬 토글 – 기준은 기록된 게임으로 배운 확률 모델(클럽 전체/선수별, core/frameModel)
+ *   기록이 없으면 손으로 정한 가중치(9/ 우대, 연속 X 감점 등)
  * - 첫구 0(–) 금지 토글
  * - 프레임 픽커 모달(10프 전용 빠른 버튼 포함) + 직접 입력(키패드)
+ * - 한 구씩 입력: 가능한 핀 수만 누를 수 있는 키패드 + 클래식 점수표, 프레임 끝나면 자동으로 다음
+ * - 한 줄 입력: "X 9/ 81 …"을 붙여넣으면 1프부터 채우고 나머지는 비움 (목표까지 자동 보완)
+ * - 입력하는 동안 프레임별 누적/최대 가능 점수/규칙 위반 미리보기 (core/scoring)
+ * - 실시간 도우미: 입력할 때마다 목표 도달 가능 여부, 필요한 최소 마크 수, 가장 쉬운 길
+ *   (입력이 잠깐 멈추면 워커에서 계산)
  */
 
-export type Frame = number[]; // 각 프레임의 투구 핀수 배열 (10프는 2~3개)
-
 const clamp = (n: number, lo: number, hi: number) =>
   Math.max(lo, Math.min(hi, n));
 
-/* -------------------- 파서/표기 -------------------- */
-function parseFrameSymbol(sym: string): Frame | null {
-  const s = sym.trim().replace(/\s+/g, "").toUpperCase();
-  if (!s) return null;
-  if (s === "X") return [10];
-
-  if (s.length === 2) {
-    const a = s[0] === "-" ? 0 : s[0] === "X" ? 10 : Number(s[0]);
-    if (Number.isNaN(a) || a < 0 || a > 10) return null;
-    const bChar = s[1];
-    if (bChar === "/") {
-      if (a >= 10) return null;
-      return [a, 10 - a];
-    }
-    const b = bChar === "-" ? 0 : bChar === "X" ? 10 : Number(bChar);
-    if (Number.isNaN(b) || b < 0 || b > 10) return null;
-    if (a + b > 10) return null;
-    return [a, b];
-  }
-
-  if (s.length === 3) {
-    const firstTwo = parseFrameSymbol(s.slice(0, 2));
-    if (!firstTwo) return null;
-    const [a, b] = firstTwo;
-    const cChar = s[2];
-    const c =
-      cChar === "-"
-        ? 0
-        : cChar === "X"
-        ? 10
-        : cChar === "/"
-        ? a === 10
-          ? null
-          : 10 - b
-        : Number(cChar);
-    if (c === null || Number.isNaN(c as number)) return null;
-    const cc = Number(c);
-    if (a === 10) {
-      if (b !== 10 && b + cc > 10) return null;
-      return [a, b, cc];
-    }
-    if (a + b === 10) return [a, b, cc];
-    return null;
-  }
-
-  return null;
-}
-
-function framesToPretty(fr: Frame): string {
-  if (fr.length === 1 && fr[0] === 10) return "X";
-  if (fr.length === 2) {
-    const [a, b] = fr;
-    if (a + b === 10) return `${a === 0 ? "-" : a}/`;
-    return `${a === 0 ? "-" : a}${b === 0 ? "-" : b}`;
-  }
-  const [a, b, c] = fr;
-  const f = a === 10 ? "X" : a === 0 ? "-" : String(a);
-  const s =
-    a === 10
-      ? b === 10
-        ? "X"
-        : String(b)
-      : a + b === 10
-      ? "/"
-      : b === 0
-      ? "-"
-      : String(b);
-  const t =
-    a === 10
-      ? b === 10
-        ? c === 10
-          ? "X"
-          : String(c)
-        : b + c === 10
-        ? "/"
-        : c === 0
-        ? "-"
-        : String(c)
-      : a + b === 10
-      ? c === 10
-        ? "X"
-        : String(c)
-      : "";
-  return `${f}${s}${t}`;
-}
+const pct = (p: number) => (p < 0.001 ? "<0.1%" : `${(p * 100).toFixed(1)}%`);
 
 function parseFramesUpTo(input: string[], upto: number): Frame[] {
   const res: Frame[] = [];
@@ -111,363 +57,50 @@ function parseFramesUpTo(input: string[], upto: number): Frame[] {
   return res;
 }
 
-/* -------------------- 점수 계산 -------------------- */
-function scoreGame(frames: Frame[]): number {
-  const rolls: number[] = [];
-  for (let i = 0; i < frames.length; i++) rolls.push(...frames[i]);
-
-  let score = 0;
-  let rollIndex = 0;
-  for (let frame = 1; frame <= 10; frame++) {
-    const first = rolls[rollIndex] ?? 0;
-
-    if (first === 10) {
-      score += 10 + (rolls[rollIndex + 1] ?? 0) + (rolls[rollIndex + 2] ?? 0);
-      rollIndex += 1;
-    } else {
-      const a = first;
-      const b = rolls[rollIndex + 1] ?? 0;
-      const sum = a + b;
-      if (sum === 10) {
-        score += 10 + (rolls[rollIndex + 2] ?? 0);
-      } else {
-        score += sum;
-      }
-      rollIndex += 2;
-
-      if (frame === 10) {
-        if (a === 10) {
-          score += (rolls[rollIndex] ?? 0) + (rolls[rollIndex + 1] ?? 0);
-          rollIndex += 2;
-        } else if (sum === 10) {
-          score += rolls[rollIndex] ?? 0;
-          rollIndex += 1;
-        }
-      }
-    }
-  }
-  return score;
-}
-
-/* -------------------- 후보 생성: 필터/무필터 -------------------- */
-function generateNormalFrameCandidates_NoFilter(): Frame[] {
-  const res: Frame[] = [];
-  res.push([10]);
-  for (let a = 0; a <= 9; a++) res.push([a, 10 - a]);
-  for (let a = 0; a <= 9; a++) {
-    for (let b = 0; b <= 9 - a; b++) res.push([a, b]);
-  }
-  return res;
-}
-function generateTenthFrameCandidates_NoFilter(): Frame[] {
-  const res: Frame[] = [];
-  for (let a = 0; a <= 9; a++) {
-    for (let b = 0; b <= 9 - a; b++) res.push([a, b]);
-  }
-  for (let a = 0; a <= 9; a++) {
-    for (let c = 0; c <= 10; c++) res.push([a, 10 - a, c]);
-  }
-  for (let b = 0; b <= 10; b++) {
-    if (b === 10) {
-      for (let c = 0; c <= 10; c++) res.push([10, b, c]);
-    } else {
-      for (let c = 0; c <= 10 - b; c++) res.push([10, b, c]);
-    }
-  }
-  return res;
-}
-
-// 첫구 0 금지
-function generateNormalFrameCandidates_FilterFirstZero(): Frame[] {
-  const res: Frame[] = [];
-  res.push([10]);
-  for (let a = 1; a <= 9; a++) res.push([a, 10 - a]);
-  for (let a = 1; a <= 9; a++) {
-    for (let b = 0; b <= 9 - a; b++) res.push([a, b]);
-  }
-  return res;
-}
-function generateTenthFrameCandidates_FilterFirstZero(): Frame[] {
-  const res: Frame[] = [];
-  for (let a = 1; a <= 9; a++) {
-    for (let b = 0; b <= 9 - a; b++) res.push([a, b]);
-  }
-  for (let a = 1; a <= 9; a++) {
-    for (let c = 0; c <= 10; c++) res.push([a, 10 - a, c]);
-  }
-  for (let b = 0; b <= 10; b++) {
-    if (b === 10) {
-      for (let c = 0; c <= 10; c++) res.push([10, b, c]);
-    } else {
-      for (let c = 0; c <= 10 - b; c++) res.push([10, b, c]);
-    }
-  }
-  return res;
-}
-
-const NORMAL_CAND_FILTER = generateNormalFrameCandidates_FilterFirstZero();
-const TENTH_CAND_FILTER = generateTenthFrameCandidates_FilterFirstZero();
-
 /* -------------------- 현실성 정렬 -------------------- */
-const WEIGHTS = {
-  spareBase: 5,
-  spareFirstBallMul: 2,
-  strikePenalty: -3,
-  consecutiveStrikePenalty: -4,
-  openFirstBallMul: 1,
-  openSecondBallMul: 0.5,
-  gutterFirstPenalty: -8,
-  tenthNiceBonus: 2,
-  tripleXPenalty: -2,
+// 기록된 게임이 이만큼 있으면 기본 기준을 클럽 확률 모델로
+const MIN_MODEL_GAMES = 3;
+
+// 현실성 기준: "weights" | "club" | "player:이름"
+type RealismBasis = string;
+
+/* -------------------- 실시간 도우미 -------------------- */
+// 입력이 멈추고 이만큼 지나면 워커에 도우미 계산 요청 (글자마다 계산하지 않게)
+const ASSIST_DELAY_MS = 150;
+
+type SearchState = {
+  id: number; // 워커 작업 번호 (늦게 온 이전 작업 메시지는 버림)
+  target: number;
+  count: bigint | null; // 목표에 닿는 전체 조합 수 (세는 중이면 null)
+  ranked: boolean;
+  mass: number | null; // 확률 모델일 때 목표에 닿는 조합 전체의 확률 합
+  pageSize: number;
+  found: RankedSolution[]; // 지금까지 받은 솔루션 (순위 순)
+  wanted: number; // 워커에 요청한 개수
+  running: boolean;
+  exhausted: boolean; // 더 받을 솔루션 없음
+  cancelled: boolean;
 };
 
-function isStrikeFrame(f: Frame) {
-  return f.length === 1 && f[0] === 10;
-}
-function isSpareFrame(f: Frame) {
-  return f.length === 2 && f[0] + f[1] === 10 && f[0] !== 10;
-}
-function isOpenFrame(f: Frame) {
-  return f.length === 2 && f[0] + f[1] < 10;
-}
-function isTenthLikeStrike(f: Frame) {
-  return f.length === 3 && f[0] === 10;
-}
-function isTenthLikeSpare(f: Frame) {
-  return f.length === 3 && f[0] + f[1] === 10 && f[0] !== 10;
-}
-
-function scoreRealism(frames: [Frame, Frame, Frame]): number {
-  const [f8, f9, f10] = frames;
-  let s = 0;
-
-  const mids = [f8, f9];
-  for (let i = 0; i < mids.length; i++) {
-    const f = mids[i];
-    if (isStrikeFrame(f)) {
-      s += WEIGHTS.strikePenalty;
-      if (i > 0 && isStrikeFrame(mids[i - 1]))
-        s += WEIGHTS.consecutiveStrikePenalty;
-    } else if (isSpareFrame(f)) {
-      const a = f[0];
-      s += WEIGHTS.spareBase + a * WEIGHTS.spareFirstBallMul;
-    } else if (isOpenFrame(f)) {
-      const [a, b] = f;
-      if (a === 0) s += WEIGHTS.gutterFirstPenalty;
-      s += a * WEIGHTS.openFirstBallMul + b * WEIGHTS.openSecondBallMul;
-    }
-  }
-
-  const t = f10;
-  if (isTenthLikeStrike(t)) {
-    const [, b, c] = t;
-    if (b === 10 && c === 10) s += WEIGHTS.tripleXPenalty;
-    if (b !== 10 && b + c === 10) s += WEIGHTS.tenthNiceBonus;
-  } else if (isTenthLikeSpare(t)) {
-    const a = t[0];
-    s += WEIGHTS.spareBase + a * WEIGHTS.spareFirstBallMul;
-  } else if (t.length === 2) {
-    const [a, b] = t;
-    if (a === 0) s += WEIGHTS.gutterFirstPenalty;
-    s += a * WEIGHTS.openFirstBallMul + b * WEIGHTS.openSecondBallMul;
-  }
-
-  if (isStrikeFrame(f8) && isStrikeFrame(f9))
-    s += WEIGHTS.consecutiveStrikePenalty;
-  return s;
-}
-
-/* -------------------- 프레임 픽커(모달) – 직접 입력/키패드 포함 -------------------- */
-function FramePicker({
-  open,
-  index,
-  currentValue,
-  onSelect,
-  onClose,
-}: {
-  open: boolean;
-  index: number | null;
-  currentValue: string;
-  onSelect: (symbol: string) => void;
-  onClose: () => void;
-}) {
-  const isTenth = index === 9;
-  const [draft, setDraft] = useState<string>("");
-  const [error, setError] = useState<string>("");
-
-  useEffect(() => {
-    if (open) {
-      setDraft((currentValue || "").toUpperCase());
-      setError("");
-    }
-  }, [open, currentValue]);
-
-  const quickCommon = ["X", "9/", "8/", "7/", "9-", "81", "72", "--"];
-  const quickTenth = ["XXX", "XX9", "X9/", "X9-", "9/X", "9/9", "9--"];
-  const list = isTenth ? quickTenth : quickCommon;
-
-  // 유효성 검사
-  const validate = (text: string) => {
-    const s = text.toUpperCase();
-    if (!s) return ""; // 빈 문자열은 입력 중 상태
-    if (!isTenth && s.length > 2)
-      return "1~9프는 최대 2글자까지 입력할 수 있어요";
-    const parsed = parseFrameSymbol(s);
-    if (!parsed)
-      return "형식이 올바르지 않아요 (예: X, 9/, 9-, 81, --, XXX, X9/)";
-    // 추가 룰: 1~9프에서 'X' 단독은 허용, 3글자는 금지(위에서 걸림)
-    return "";
-  };
-
-  useEffect(() => {
-    setError(validate(draft));
-  }, [draft]);
-
-  const appendChar = (ch: string) => {
-    let next = (draft + ch).toUpperCase();
-
-    // 길이 제한
-    const maxLen = isTenth ? 3 : 2;
-    if (next.length > maxLen) return;
-
-    // X 처리: 1~9프에서는 X 하나로 끝 (원하면 즉시 저장도 가능)
-    if (!isTenth && next.length >= 2 && next[0] === "X") {
-      // X 다음 추가는 막기
-      next = "X";
-    }
-
-    setDraft(next);
-  };
-
-  const backspace = () => setDraft((d) => d.slice(0, -1));
-  const clearAll = () => setDraft("");
-  const handleSave = () => {
-    const err = validate(draft);
-    if (!err && draft) {
-      onSelect(draft.toUpperCase());
-      onClose();
-    } else {
-      setError(err || "입력값이 비어 있어요");
-    }
-  };
-
-  return !open || index === null ? null : (
-    <div
-      className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/30 p-3"
-      onClick={onClose}
-    >
-      <div
-        className="w-full max-w-md rounded-2xl bg-white shadow-xl p-4"
-        onClick={(e) => e.stopPropagation()}
-      >
-        <div className="mb-3 flex items-center justify-between">
-          <div className="font-semibold">프레임 선택 – {index + 1}프</div>
-          <button className="text-sm text-gray-500" onClick={onClose}>
-            닫기
-          </button>
-        </div>
-
-        {/* 빠른 선택 */}
-        <div className="grid grid-cols-4 gap-2 mb-3">
-          {list.map((s) => (
-            <button
-              key={s}
-              onClick={() => {
-                setDraft(s);
-                setError("");
-              }}
-              className="rounded-xl border px-3 py-2 text-sm hover:bg-purple-50"
-            >
-              {s}
-            </button>
-          ))}
-        </div>
-
-        {/* 직접 입력 */}
-        <div className="rounded-xl border p-3">
-          <div className="mb-2 text-xs text-gray-500">
-            직접 입력 (예: X, 9/, 9-, 81, --, 10프 예: XXX, X9/, 9/X)
-          </div>
-          <input
-            value={draft}
-            onChange={(e) => setDraft(e.target.value.toUpperCase())}
-            placeholder={
-              isTenth ? "예: XXX / X9/ / 9/X" : "예: X / 9/ / 81 / --"
-            }
-            className={`w-full rounded-lg border px-3 py-2 text-sm shadow-sm focus:ring-2 ${
-              error
-                ? "border-red-400 focus:ring-red-200"
-                : "border-gray-200 focus:ring-fuchsia-300"
-            }`}
-          />
-          {error && (
-            <div className="mt-1 text-[11px] text-red-500">{error}</div>
-          )}
-
-          {/* 모바일 키패드 */}
-          <div className="mt-3 grid grid-cols-5 gap-2">
-            {[
-              "X",
-              "9",
-              "8",
-              "7",
-              "6",
-              "5",
-              "4",
-              "3",
-              "2",
-              "1",
-              "0",
-              "-",
-              "/",
-            ].map((k) => (
-              <button
-                key={k}
-                onClick={() => appendChar(k)}
-                className="rounded-lg border px-3 py-2 text-sm hover:bg-purple-50"
-              >
-                {k}
-              </button>
-            ))}
-            <button
-              onClick={backspace}
-              className="col-span-2 rounded-lg border px-3 py-2 text-sm hover:bg-gray-50"
-            >
-              ⌫ 지우기
-            </button>
-            <button
-              onClick={clearAll}
-              className="col-span-2 rounded-lg border px-3 py-2 text-sm hover:bg-gray-50"
-            >
-              전체 삭제
-            </button>
-            <button
-              onClick={handleSave}
-              disabled={!!validate(draft) || !draft}
-              className={`col-span-1 rounded-lg px-3 py-2 text-sm text-white ${
-                !!validate(draft) || !draft
-                  ? "bg-gray-300"
-                  : "bg-fuchsia-600 hover:bg-fuchsia-700"
-              }`}
-            >
-              저장
-            </button>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
-
 /* -------------------- 메인 컴포넌트 -------------------- */
 export default function CountPage() {
   const [target, setTarget] = useState<number>(210);
   const [framesStr, setFramesStr] = useState<string[]>(Array(10).fill(""));
-  const [solutions, setSolutions] = useState<Frame[][]>([]);
-  const [previewScore, setPreviewScore] = useState<number | null>(null);
+  const [search, setSearch] = useState<SearchState | null>(null);
+  const [page, setPage] = useState(0);
+  const worker = useRef<Worker | null>(null);
+  const jobId = useRef(0);
   const [limit, setLimit] = useState<number>(50);
+  const [solvedIdx, setSolvedIdx] = useState<number[]>([]); // 탐색한(빈) 프레임
+  const [solveError, setSolveError] = useState<string | null>(null);
 
   const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const [entryMode, setEntryMode] = useState<"symbol" | "ball">("symbol");
+  // 한 구씩 입력 중인(아직 안 끝난) 프레임
+  const [pending, setPending] = useState<{
+    index: number;
+    rolls: number[];
+  } | null>(null);
   const [showPicker, setShowPicker] = useState<{
     open: boolean;
     index: number | null;
@@ -480,6 +113,30 @@ export default function CountPage() {
   const [preferRealism, setPreferRealism] = useState(true);
   const [forbidFirstZero, setForbidFirstZero] = useState(true);
 
+  const [history] = useHistory();
+  const players = useMemo(() => historyPlayers(history), [history]);
+  const clubModel = useMemo(
+    () => buildFrameModel(history.map((g) => g.frames)),
+    [history]
+  );
+  const [basis, setBasis] = useState<RealismBasis>(() =>
+    history.length >= MIN_MODEL_GAMES ? "club" : "weights"
+  );
+  // 선수별 모델은 클럽 모델을 사전으로 (기록 적은 선수도 클럽 쪽으로 당겨짐)
+  const model: FrameModel | null = useMemo(() => {
+    if (basis === "club") return history.length ? clubModel : null;
+    if (!basis.startsWith("player:")) return null;
+    const name = basis.slice("player:".length);
+    const games = history.filter((g) => g.player === name);
+    return games.length
+      ? buildFrameModel(
+          games.map((g) => g.frames),
+          clubModel
+        )
+      : null;
+  }, [basis, history, clubModel]);
+  const summary = model && modelSummary(model);
+
   console.log(focusedIndex);
 
   const parsedFirst10 = useMemo(
@@ -487,68 +144,212 @@ export default function CountPage() {
     [framesStr]
   );
 
-  function handleCalculate() {
-    const fixed = parsedFirst10.map((fr) => (fr && fr.length ? fr : null));
+  // 미리보기: 빈 프레임은 "모름" (누적은 1프부터 확정된 곳까지)
+  const preview = useMemo(
+    () => evaluateGame(parsedFirst10.map((fr) => (fr.length ? fr : null))),
+    [parsedFirst10]
+  );
 
-    // 미리보기(빈 프레임 0점 가정)
-    try {
-      const approx = fixed.map((fr) => fr ?? [0, 0]);
-      setPreviewScore(scoreGame(approx as Frame[]));
-    } catch {
-      setPreviewScore(null);
+  // 형식 오류/규칙 위반/끝나지 않은 프레임 (있으면 탐색하지 않음)
+  const badIdx = framesStr.findIndex(
+    (v, i) =>
+      (v.trim() && !parsedFirst10[i].length) ||
+      preview.errors.some((e) => e.frame === i) ||
+      (preview.frames[i].rolls && !preview.frames[i].complete)
+  );
+
+  const [live, setLive] = useState(true);
+  const [assist, setAssist] = useState<Assist | null>(null);
+  const assistId = useRef(0);
+
+  const setFrameSymbol = (i: number, v: string) =>
+    setFramesStr((prev) => {
+      const next = [...prev];
+      next[i] = v;
+      return next;
+    });
+
+  // 1프부터 이어서 입력된 프레임 한 줄 (중간이 비면 거기까지)
+  const line = useMemo(() => {
+    const marked: MarkedFrame[] = [];
+    for (const sym of framesStr) {
+      const m = parseMarkedFrame(sym);
+      if (!m) break;
+      marked.push(m);
     }
+    return formatGameLine(
+      marked.map((m) => m.frame),
+      marked.map((m) => m.marks)
+    );
+  }, [framesStr]);
+
+  const importLine = ({ frames, marks }: GameLine) => {
+    setFramesStr(
+      Array.from({ length: 10 }, (_, i) =>
+        frames[i] ? framesToPretty(frames[i], marks[i]) : ""
+      )
+    );
+    setPending(null);
+  };
 
-    // 8~10프 중 비어있는 것만 탐색
-    const f8Fixed = fixed[7];
-    const f9Fixed = fixed[8];
-    const f10Fixed = fixed[9];
-
-    const NORMAL_POOL = forbidFirstZero
-      ? NORMAL_CAND_FILTER
-      : generateNormalFrameCandidates_NoFilter();
-
-    const TENTH_POOL = forbidFirstZero
-      ? TENTH_CAND_FILTER
-      : generateTenthFrameCandidates_NoFilter();
-
-    const f8List = f8Fixed ? [f8Fixed] : NORMAL_POOL;
-    const f9List = f9Fixed ? [f9Fixed] : NORMAL_POOL;
-    const f10List = f10Fixed ? [f10Fixed] : TENTH_POOL;
-
-    const prefix: Frame[] = fixed.slice(0, 7).map((fr) => fr ?? []) as Frame[];
-
-    const sols: Frame[][] = [];
-    outer: for (const f8 of f8List) {
-      for (const f9 of f9List) {
-        for (const f10 of f10List) {
-          const game = [...prefix, f8, f9, f10];
-          const sc = scoreGame(game);
-          if (sc === target) {
-            sols.push([f8, f9, f10]);
-            if (sols.length >= limit * 3) break outer; // 정렬 전에 넉넉히 확보
-          }
-        }
-      }
+  /* ---------- 한 구씩 입력 ---------- */
+  const ballFrame = pending?.index ?? framesStr.findIndex((v) => !v.trim());
+  const standing =
+    ballFrame < 0 ? 0 : pinsStanding(pending?.rolls ?? [], ballFrame);
+
+  function enterBall(pins: number) {
+    if (ballFrame < 0) return;
+    const rolls = [...(pending?.rolls ?? []), pins];
+    if (isFrameComplete(rolls, ballFrame)) {
+      setFrameSymbol(ballFrame, framesToPretty(rolls));
+      setPending(null);
+    } else setPending({ index: ballFrame, rolls });
+  }
+
+  // 마지막 공 하나 취소 (끝난 프레임이면 다시 열어서)
+  function undoBall() {
+    if (pending) {
+      const rolls = pending.rolls.slice(0, -1);
+      setPending(rolls.length ? { ...pending, rolls } : null);
+      return;
     }
+    const last = framesStr.map((v) => !!v.trim()).lastIndexOf(true);
+    if (last < 0) return;
+    const rolls = parseFrameSymbol(framesStr[last]) ?? [];
+    setFrameSymbol(last, "");
+    if (rolls.length > 1)
+      setPending({ index: last, rolls: rolls.slice(0, -1) });
+  }
+
+  useEffect(() => () => worker.current?.terminate(), []);
 
-    if (!sols.length && f8Fixed && f9Fixed && f10Fixed) {
-      const sc = scoreGame([...prefix, f8Fixed, f9Fixed, f10Fixed]);
-      if (sc === target) sols.push([f8Fixed, f9Fixed, f10Fixed]);
+  const onSolverMessage = (msg: SolveResponse) => {
+    if (msg.type === "assist") {
+      if (msg.id === assistId.current) setAssist(msg.assist);
+      return;
     }
+    setSearch((st) => {
+      if (!st || st.id !== msg.id) return st;
+      if (msg.type === "count")
+        return { ...st, count: msg.count, mass: msg.mass };
+      return {
+        ...st,
+        found: [...st.found, ...msg.solutions],
+        running: !msg.idle,
+        exhausted: msg.exhausted,
+      };
+    });
+  };
 
-    if (preferRealism) {
-      sols.sort(
-        (A, B) =>
-          scoreRealism(B as [Frame, Frame, Frame]) -
-          scoreRealism(A as [Frame, Frame, Frame])
+  // 워커는 처음 계산할 때 만들고 계속 씀 (onSolverMessage는 setter/ref만 써서 처음 것으로 충분)
+  const solver = useCallback((msg: SolveRequest) => {
+    if (!worker.current) {
+      worker.current = new Worker(
+        new URL("../workers/solver.worker.ts", import.meta.url),
+        { type: "module" }
       );
+      worker.current.onmessage = (e: MessageEvent<SolveResponse>) =>
+        onSolverMessage(e.data);
+    }
+    worker.current.postMessage(msg);
+  }, []);
+
+  useEffect(() => {
+    const id = ++assistId.current; // 늦게 온 이전 요청 결과는 버림
+    if (!live || badIdx >= 0) {
+      setAssist(null);
+      return;
+    }
+    const timer = setTimeout(
+      () =>
+        solver({
+          type: "assist",
+          id,
+          fixed: parsedFirst10.map((fr) => (fr.length ? fr : null)),
+          target,
+          forbidFirstZero,
+        }),
+      ASSIST_DELAY_MS
+    );
+    return () => clearTimeout(timer);
+  }, [live, badIdx, parsedFirst10, target, forbidFirstZero, solver]);
+
+  function handleCalculate() {
+    if (badIdx >= 0) {
+      setSolveError(`${badIdx + 1}프 기록을 먼저 고쳐 주세요.`);
+      setSearch(null);
+      return;
     }
+    setSolveError(null);
 
-    if (sols.length > limit) sols.length = limit;
+    const fixed = parsedFirst10.map((fr) => (fr && fr.length ? fr : null));
+    setSolvedIdx(fixed.flatMap((fr, i) => (fr ? [] : [i])));
+
+    // 빈 프레임 전부(위치 무관) 탐색 – 목표에 닿는 가지만 나열
+    const id = ++jobId.current;
+    solver({
+      type: "solve",
+      id,
+      fixed,
+      target,
+      forbidFirstZero,
+      ranking: !preferRealism
+        ? { kind: "none" }
+        : model
+        ? { kind: "model", model }
+        : { kind: "weights" },
+      upto: limit,
+    });
+    setSearch({
+      id,
+      target,
+      count: null,
+      ranked: preferRealism,
+      mass: null,
+      pageSize: limit,
+      found: [],
+      wanted: limit,
+      running: true,
+      exhausted: false,
+      cancelled: false,
+    });
+    setPage(0);
+  }
 
-    setSolutions(sols);
+  function cancelSearch() {
+    if (!search?.running) return;
+    solver({ type: "cancel", id: search.id });
+    setSearch({ ...search, running: false, cancelled: true });
   }
 
+  function goToPage(p: number) {
+    if (!search) return;
+    const need = (p + 1) * search.pageSize;
+    if (
+      search.found.length < need &&
+      need > search.wanted &&
+      !search.exhausted &&
+      !search.cancelled
+    ) {
+      solver({ type: "more", id: search.id, upto: need });
+      setSearch({ ...search, wanted: need, running: true });
+    }
+    setPage(p);
+  }
+
+  const pageCount =
+    search?.count != null
+      ? (search.count + BigInt(search.pageSize) - 1n) / BigInt(search.pageSize)
+      : 0n;
+  // 중단했으면 이미 받은 데까지만 넘김
+  const canNext =
+    !!search &&
+    BigInt(page + 1) < pageCount &&
+    !(search.cancelled && search.found.length <= (page + 1) * search.pageSize);
+  const pageItems = search
+    ? search.found.slice(page * search.pageSize, (page + 1) * search.pageSize)
+    : [];
+
   return (
     <div className="min-h-screen w-full bg-gradient-to-br from-white to-purple-50 px-6 py-8">
       <div className="mx-auto max-w-5xl">
@@ -561,10 +362,12 @@ export default function CountPage() {
             />
           </Link>
           <h1 className="text-xl font-extrabold text-purple-700">
-            목표 점수 역산 (8~10프 수동 입력 가능)
+            목표 점수 역산 (빈 프레임 자동 탐색)
           </h1>
           <div className="text-xs text-gray-500">
-            미리 점수: {previewScore ?? "-"} / 타겟 {target}
+            현재 {preview.total}
+            {!preview.complete && ` · 최대 ${preview.maxPossible ?? "-"}`} /
+            타겟 {target}
           </div>
         </header>
 
@@ -587,7 +390,7 @@ export default function CountPage() {
             </div>
 
             <div>
-              <label className="text-sm font-medium">솔루션 최대 개수</label>
+              <label className="text-sm font-medium">페이지당 개수</label>
               <input
                 type="number"
                 min={1}
@@ -598,19 +401,48 @@ export default function CountPage() {
                 }
                 className="mt-2 w-full rounded-2xl border px-3 py-2 text-sm shadow-sm"
               />
-              <p className="mt-1 text-xs text-gray-500">탐색 비용 제한</p>
+              <p className="mt-1 text-xs text-gray-500">
+                전체 조합 중 순위대로
+              </p>
             </div>
 
-            <div className="flex items-center gap-3">
-              <label className="text-sm font-medium whitespace-nowrap">
-                현실성 우선 정렬
-              </label>
-              <input
-                type="checkbox"
-                checked={preferRealism}
-                onChange={(e) => setPreferRealism(e.target.checked)}
-                className="h-4 w-4"
-              />
+            <div>
+              <div className="flex items-center gap-3">
+                <label className="text-sm font-medium whitespace-nowrap">
+                  현실성 우선 정렬
+                </label>
+                <input
+                  type="checkbox"
+                  checked={preferRealism}
+                  onChange={(e) => setPreferRealism(e.target.checked)}
+                  className="h-4 w-4"
+                />
+              </div>
+              <select
+                value={basis}
+                disabled={!preferRealism}
+                onChange={(e) => setBasis(e.target.value)}
+                className="mt-2 w-full rounded-2xl border px-3 py-2 text-sm shadow-sm disabled:opacity-50"
+              >
+                <option value="weights">기본 가중치</option>
+                {history.length > 0 && (
+                  <option value="club">클럽 기록 ({history.length}게임)</option>
+                )}
+                {players.map((p) => (
+                  <option key={p.name} value={`player:${p.name}`}>
+                    {p.name} ({p.games}게임)
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                {summary
+                  ? `스트라이크 ${pct(summary.strike)} · 스페어 처리 ${pct(
+                      summary.spare
+                    )}`
+                  : history.length
+                  ? "손으로 정한 가중치"
+                  : "점수판에 기록이 쌓이면 확률 모델로 정렬"}
+              </p>
             </div>
 
             <div className="flex items-center gap-3">
@@ -627,46 +459,106 @@ export default function CountPage() {
           </div>
 
           <div className="mt-5">
-            <label className="text-sm font-medium">
-              1~10프레임 기록 (예: X, 9/, 9-, 81, -- · 10프 예: XXX, X9/, 9/X)
-            </label>
-            <div className="mt-2 grid grid-cols-5 gap-2 md:grid-cols-10">
-              {Array.from({ length: 10 }, (_, i) => {
-                const parsed = parseFrameSymbol(framesStr[i] ?? "");
-                const isInvalid = Boolean(framesStr[i]) && !parsed;
-
-                return (
-                  <div key={i} className="flex flex-col items-center gap-1">
-                    <input
-                      value={framesStr[i]}
-                      onChange={(e) => {
-                        const v = e.target.value.toUpperCase();
-                        setFramesStr((prev) => {
-                          const next = [...prev];
-                          next[i] = v;
-                          return next;
-                        });
-                      }}
-                      onFocus={() => {
-                        setFocusedIndex(i);
-                        setShowPicker({ open: true, index: i }); // 포커스 시 모달
-                      }}
-                      placeholder={`${i + 1}프`}
-                      className={`w-full rounded-xl border px-2 py-2 text-center text-sm shadow-sm focus:ring-2 ${
-                        isInvalid
-                          ? "border-red-400 focus:ring-red-200"
-                          : "border-gray-200 focus:ring-fuchsia-300"
-                      }`}
-                    />
-                    {isInvalid && (
-                      <div className="text-[10px] text-red-500 mt-1">
-                        형식이 올바르지 않습니다
-                      </div>
-                    )}
-                    {/* ✅ 요청사항 1: 인풋 아래 popover/빠른버튼 완전 제거 */}
-                  </div>
-                );
-              })}
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <label className="text-sm font-medium">
+                1~10프레임 기록
+                {entryMode === "symbol" &&
+                  " (예: X, 9/, 9-, 81, -- · 10프 예: XXX, X9/, 9/X)"}
+              </label>
+              <div className="flex gap-1 text-xs">
+                {(
+                  [
+                    ["symbol", "기호로"],
+                    ["ball", "한 구씩"],
+                  ] as const
+                ).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => {
+                      setEntryMode(mode);
+                      setPending(null);
+                    }}
+                    className={`rounded-xl px-3 py-1 ${
+                      entryMode === mode
+                        ? "bg-fuchsia-600 text-white shadow"
+                        : "border border-purple-200 bg-white text-purple-700"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {entryMode === "ball" ? (
+              <div className="mt-2 space-y-3">
+                <ScoreSheet
+                  frames={parsedFirst10.map((fr) => (fr.length ? fr : null))}
+                  cumulative={preview.frames.map((f) => f.cumulative)}
+                  pending={pending}
+                  current={ballFrame}
+                />
+                <p className="text-xs text-gray-500">
+                  {ballFrame < 0
+                    ? "10프까지 모두 입력했어요."
+                    : `${ballFrame + 1}프 ${
+                        (pending?.rolls.length ?? 0) + 1
+                      }구 – 쓰러뜨린 핀 수`}
+                </p>
+                <BallKeypad
+                  standing={standing}
+                  onPins={enterBall}
+                  onUndo={undoBall}
+                  canUndo={!!pending || framesStr.some((v) => v.trim())}
+                />
+              </div>
+            ) : (
+              <div className="mt-2 grid grid-cols-5 gap-2 md:grid-cols-10">
+                {Array.from({ length: 10 }, (_, i) => {
+                  const parsed = parseFrameSymbol(framesStr[i] ?? "");
+                  const frameError = preview.errors.find((e) => e.frame === i);
+                  const isInvalid =
+                    (Boolean(framesStr[i]) && !parsed) || !!frameError;
+                  const { cumulative, pendingBonus, rolls } = preview.frames[i];
+
+                  return (
+                    <div key={i} className="flex flex-col items-center gap-1">
+                      <input
+                        value={framesStr[i]}
+                        onChange={(e) =>
+                          setFrameSymbol(i, e.target.value.toUpperCase())
+                        }
+                        onFocus={() => {
+                          setFocusedIndex(i);
+                          setShowPicker({ open: true, index: i }); // 포커스 시 모달
+                        }}
+                        placeholder={`${i + 1}프`}
+                        className={`w-full rounded-xl border px-2 py-2 text-center text-sm shadow-sm focus:ring-2 ${
+                          isInvalid
+                            ? "border-red-400 focus:ring-red-200"
+                            : "border-gray-200 focus:ring-fuchsia-300"
+                        }`}
+                      />
+                      {isInvalid ? (
+                        <div className="text-[10px] text-red-500 mt-1">
+                          {frameError?.message ?? "형식이 올바르지 않습니다"}
+                        </div>
+                      ) : (
+                        <div className="h-4 text-[11px] tabular-nums text-gray-500">
+                          {cumulative ?? (rolls && pendingBonus > 0 ? "…" : "")}
+                        </div>
+                      )}
+                      {/* ✅ 요청사항 1: 인풋 아래 popover/빠른버튼 완전 제거 */}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="mt-4">
+              <div className="mb-1 text-xs text-gray-500">
+                한 줄 입력 (적은 프레임까지 채우고 나머지는 목표에 맞춰 보완)
+              </div>
+              <GameLineInput value={line} onImport={importLine} />
             </div>
 
             <div className="mt-4 flex flex-wrap items-center gap-2">
@@ -677,55 +569,221 @@ export default function CountPage() {
                 계산하기
               </button>
               <button
-                onClick={() => setFramesStr(Array(10).fill(""))}
+                onClick={() => {
+                  setFramesStr(Array(10).fill(""));
+                  setPending(null);
+                }}
                 className="rounded-2xl border border-purple-200 bg-white px-4 py-2 text-xs text-purple-700 shadow-sm hover:bg-purple-50"
               >
                 전체 지우기
               </button>
+              <label className="ml-auto flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={live}
+                  onChange={(e) => setLive(e.target.checked)}
+                  className="h-4 w-4"
+                />
+                실시간 도우미
+              </label>
             </div>
           </div>
         </section>
 
+        {/* 실시간 도우미 */}
+        {live && (
+          <section className="mb-6 rounded-3xl bg-white/90 p-5 text-sm shadow ring-1 ring-purple-100">
+            <h2 className="mb-2 font-bold">목표 {target}점까지</h2>
+            {badIdx >= 0 ? (
+              <p className="text-red-500">
+                {badIdx + 1}프 기록을 고치면 다시 계산해요.
+              </p>
+            ) : !assist ? null : assist.open.length === 0 ? (
+              <p>
+                게임 끝: <b>{preview.total}점</b>{" "}
+                {preview.total >= target ? "– 목표 달성!" : "– 목표 미달"}
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                <li>
+                  현재 {preview.total} · 최대 가능{" "}
+                  <b>{preview.maxPossible ?? "-"}</b>
+                </li>
+                {assist.path ? (
+                  <>
+                    <li>
+                      <b className="text-purple-700">도달 가능</b> – 남은{" "}
+                      {assist.open.length}프레임 중{" "}
+                      {assist.minMarks === 0 ? (
+                        "마크 없이도 가능"
+                      ) : (
+                        <>
+                          최소 <b>{assist.minMarks}프레임</b> 마크(X, /) 필요
+                        </>
+                      )}
+                      <span className="ml-2 text-xs text-gray-500">
+                        ({assist.ways.toLocaleString()}가지)
+                      </span>
+                    </li>
+                    <li>
+                      가장 쉬운 길:{" "}
+                      {assist.open.map((i, k) => (
+                        <span key={i}>
+                          {k > 0 && " + "}
+                          {i + 1}프{" "}
+                          <b
+                            className={
+                              isMarkFrame(assist.path![i], i)
+                                ? "text-fuchsia-600"
+                                : ""
+                            }
+                          >
+                            {framesToPretty(assist.path![i])}
+                          </b>
+                        </span>
+                      ))}
+                    </li>
+                  </>
+                ) : (
+                  <li className="text-red-500">
+                    {(preview.maxPossible ?? 0) < target
+                      ? `남은 프레임을 모두 스트라이크로 쳐도 ${preview.maxPossible}점이라 목표에 닿을 수 없어요.`
+                      : `남은 프레임으로 정확히 ${target}점은 만들 수 없어요.`}
+                  </li>
+                )}
+              </ul>
+            )}
+          </section>
+        )}
+
         {/* 결과 */}
         <section className="space-y-4">
-          {solutions.length === 0 ? (
+          {solveError ? (
+            <div className="rounded-2xl bg-white p-4 text-sm text-red-500 shadow ring-1 ring-purple-100">
+              {solveError}
+            </div>
+          ) : !search || search.count === 0n ? (
             <div className="rounded-2xl bg-white p-4 text-sm text-gray-600 shadow ring-1 ring-purple-100">
               조건에 맞는 조합이 없거나 계산을 아직 실행하지 않았습니다.
             </div>
           ) : (
-            <div className="grid gap-4 md:grid-cols-2">
-              {solutions.map((sol, idx) => (
-                <div
-                  key={idx}
-                  className="rounded-2xl border border-purple-100 bg-white p-4 shadow-sm"
-                >
-                  <div className="mb-2 flex items-center justify-between">
-                    <div className="text-sm font-semibold text-purple-700">
-                      솔루션 {idx + 1}
-                    </div>
-                    <div className="text-xs text-gray-500">최종 {target}</div>
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-2 rounded-2xl bg-white p-4 text-sm shadow ring-1 ring-purple-100">
+                <div>
+                  {search.count === null ? (
+                    "조합 세는 중…"
+                  ) : (
+                    <>
+                      <b className="text-purple-700">
+                        {search.count.toLocaleString()}가지
+                      </b>{" "}
+                      방법으로 {search.target}점
+                    </>
+                  )}
+                  <span className="ml-2 text-xs text-gray-500">
+                    {search.mass !== null
+                      ? "확률 순 (목표에 닿는 경우 중 비중)"
+                      : search.ranked
+                      ? "현실성 순"
+                      : "후보 순"}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 text-xs">
+                  <button
+                    disabled={page === 0}
+                    onClick={() => goToPage(page - 1)}
+                    className="rounded-xl border border-purple-200 px-3 py-1 text-purple-700 disabled:opacity-40"
+                  >
+                    이전
+                  </button>
+                  <span className="tabular-nums text-gray-600">
+                    {(page + 1).toLocaleString()} / {pageCount.toLocaleString()}
+                  </span>
+                  <button
+                    disabled={!canNext}
+                    onClick={() => goToPage(page + 1)}
+                    className="rounded-xl border border-purple-200 px-3 py-1 text-purple-700 disabled:opacity-40"
+                  >
+                    다음
+                  </button>
+                </div>
+              </div>
+              {search.running && (
+                <div className="flex items-center gap-3 rounded-2xl bg-white p-3 text-xs text-gray-600 shadow ring-1 ring-purple-100">
+                  <div className="h-2 flex-1 overflow-hidden rounded-full bg-purple-100">
+                    <div
+                      className="h-full bg-fuchsia-500 transition-all"
+                      style={{
+                        width: `${Math.min(
+                          100,
+                          (search.found.length / search.wanted) * 100
+                        )}%`,
+                      }}
+                    />
                   </div>
-                  <ul className="text-sm">
-                    <li>
-                      8프: <b>{framesToPretty(sol[0])}</b>
-                    </li>
-                    <li>
-                      9프: <b>{framesToPretty(sol[1])}</b>
-                    </li>
-                    <li>
-                      10프: <b>{framesToPretty(sol[2])}</b>
-                    </li>
-                  </ul>
+                  <span className="tabular-nums">
+                    찾는 중 {search.found.length.toLocaleString()} /{" "}
+                    {search.wanted.toLocaleString()}
+                  </span>
+                  <button
+                    onClick={cancelSearch}
+                    className="rounded-xl border border-red-200 px-3 py-1 text-red-500 hover:bg-red-50"
+                  >
+                    중단
+                  </button>
                 </div>
-              ))}
-            </div>
+              )}
+              {search.cancelled && (
+                <p className="text-xs text-gray-500">
+                  탐색을 중단했어요. 받은 {search.found.length.toLocaleString()}
+                  개까지만 볼 수 있어요.
+                </p>
+              )}
+              <div className="grid gap-4 md:grid-cols-2">
+                {pageItems.map((sol, k) => {
+                  const rank = page * search.pageSize + k + 1;
+                  return (
+                    <div
+                      key={rank}
+                      className="rounded-2xl border border-purple-100 bg-white p-4 shadow-sm"
+                    >
+                      <div className="mb-2 flex items-center justify-between">
+                        <div className="text-sm font-semibold text-purple-700">
+                          솔루션 {rank.toLocaleString()}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {search.mass
+                            ? `확률 ${pct(
+                                Math.exp(sol.weight) / search.mass
+                              )} · `
+                            : search.ranked && `현실성 ${sol.weight} · `}
+                          최종 {search.target}
+                        </div>
+                      </div>
+                      <ul className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                        {solvedIdx.map((i) => (
+                          <li key={i}>
+                            {i + 1}프: <b>{framesToPretty(sol.game[i])}</b>
+                          </li>
+                        ))}
+                        {solvedIdx.length === 0 && (
+                          <li className="text-gray-500">입력한 기록 그대로</li>
+                        )}
+                      </ul>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
           )}
         </section>
 
         <p className="mt-6 text-xs text-gray-500">
           허용 기호: X, 숫자/-, 스페어는 "/". 예) X, 9/, 9-, 81, --. 10프 예)
-          XXX, X9/, 9/X. 8~10프를 직접 입력하면 해당 프레임은 고정하고 나머지만
-          탐색합니다.
+          XXX, X9/, 9/X. 입력한 프레임은 고정하고, 비어 있는 프레임은 위치와
+          개수에 상관없이 모두 탐색하고, 목표에 닿는 조합 전체를 순위대로 한
+          페이지씩 보여줍니다. "한 구씩"으로 바꾸면 공마다 쓰러뜨린 핀 수를 눌러
+          기록해요.
         </p>
       </div>
 
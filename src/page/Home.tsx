@@ -68,6 +68,18 @@ export default function HomePage() {
               >
                 맞춤 점수 찾기
               </button>
+              <button
+                onClick={() => navigate("/score")}
+                className="w-full rounded-2xl border border-fuchsia-200 bg-white px-6 py-3 text-sm font-semibold text-fuchsia-700 shadow hover:bg-fuchsia-50 active:scale-[0.98]"
+              >
+                점수 기록
+              </button>
+              <button
+                onClick={() => navigate("/stats")}
+                className="w-full rounded-2xl border border-fuchsia-200 bg-white px-6 py-3 text-sm font-semibold text-fuchsia-700 shadow hover:bg-fuchsia-50 active:scale-[0.98]"
+              >
+                선수 통계
+              </button>
 
               {/* 링크로 하고 싶으면 버튼 대신 이렇게 */}
               {/* <Link to="/main" className="...">일반 모드</Link>
@@ -1,4 +1,40 @@
 import { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import {
+  applyRecordedAverages,
+  playerAverage,
+  syncScoreHistory,
+} from "../core/roster";
+import { parseCsvRows } from "../core/csv";
+import { playerHandicap, type HandicapConfig } from "../core/handicap";
+import { parsePlayers } from "../core/players";
+import {
+  handicapStrength,
+  makeTeams,
+  optimizeTeams,
+  planSession,
+  scratch,
+  teamAvg,
+  teamSpread,
+  teamTotal,
+  type PairConstraint,
+  type Player,
+  type SessionGame,
+  type Team,
+} from "../core/teams";
+import { gvizCsvUrl, rowsToRosterText } from "../core/sheet";
+import {
+  decodeResult,
+  encodeResult,
+  shareUrl,
+  type SharedMainResult,
+} from "../core/share";
+import { useHistory } from "../store/history";
+import { useRoster } from "../store/roster";
+import { useSheetSettings } from "../store/sheet";
+import RosterPanel from "../components/RosterPanel";
+import SheetSettingsPanel from "../components/SheetSettingsPanel";
+import ShareButton from "../components/ShareButton";
 
 /**
  * Bowling team maker
@@ -9,170 +45,466 @@ import { useEffect, useMemo, useState } from "react";
  *   3) Make seeds and balance teams by average
  *   4) Examples: 10 -> 5x2, 12 -> 6x2, 15 -> 5x3
  *
- * Implementation:
+ * Implementation (core/teams):
  * - Determine teamCount = round(n / maxPerTable) (fits examples above). min 2.
  * - Compute target sizes for each team so no team exceeds maxPerTable and sizes differ by at most 1.
  * - Sort by average desc (seeding), assign in a snake pattern while respecting target sizes.
+ *
+ * Averages (core/roster):
+ * - Finished scoreboard games are synced into the roster, so rolling averages stay current.
+ * - Typed/sheet averages are replaced by the roster's recorded average when the player has games.
+ * - Roster players below the minimum game count get a provisional average (marked "임시").
+ * - Players missing from the roster keep their typed average and are listed separately.
  */
 
 // ---------- Types ----------
-export type Player = { name: string; avg: number };
-export type Team = { idx: number; players: Player[]; sizeLimit: number };
-
-// ---------- Core Logic ----------
-function decideTeamCount(n: number, maxPerTable: number) {
-  // ceil로 바꿔서 항상 총 수용 인원이 참가자 이상이 되게
-  const cap = Math.max(2, Math.min(12, Math.floor(maxPerTable))); // 최소 2, 최대 12 같은 가드
-  if (n <= 0) return 0;
-  return Math.max(2, Math.ceil(n / cap));
-}
+export type BalanceMode = "snake" | "optimized";
+export type DataSource = "manual" | "sheet" | "roster";
+
+// ---------- Handicap ----------
+const DEFAULT_HANDICAP: HandicapConfig = {
+  enabled: false,
+  base: 200,
+  percent: 80,
+};
+
+// ---------- Constraint Editor ----------
+function ConstraintEditor({
+  players,
+  constraints,
+  errors,
+  onChange,
+}: {
+  players: Player[];
+  constraints: PairConstraint[];
+  errors: string[];
+  onChange: (next: PairConstraint[]) => void;
+}) {
+  const [a, setA] = useState("");
+  const [b, setB] = useState("");
+  const [kind, setKind] = useState<PairConstraint["kind"]>("together");
+
+  const names = useMemo(
+    () => [...new Set(players.map((p) => p.name))],
+    [players]
+  );
+  const known = new Set(names);
+
+  const add = () => {
+    if (!a || !b || a === b) return;
+    const dup = constraints.some(
+      (c) =>
+        c.kind === kind &&
+        ((c.a === a && c.b === b) || (c.a === b && c.b === a))
+    );
+    if (!dup) onChange([...constraints, { kind, a, b }]);
+    setA("");
+    setB("");
+  };
 
-function targetSizes(n: number, teams: number, maxPerTable: number): number[] {
-  // base even split
-  const base = Math.floor(n / teams);
-  let rem = n % teams; // first `rem` teams get +1
-  const sizes = Array.from({ length: teams }, () => base);
-  for (let i = 0; i < teams; i++) {
-    if (rem > 0) {
-      sizes[i] += 1;
-      rem--;
-    }
-  }
-  // ensure none exceed max
-  for (let i = 0; i < teams; i++) {
-    if (sizes[i] > maxPerTable) {
-      // push overflow to later teams (or previous if needed)
-      let overflow = sizes[i] - maxPerTable;
-      sizes[i] = maxPerTable;
-      let j = i + 1;
-      while (overflow > 0 && j < teams) {
-        const canTake = Math.min(maxPerTable - sizes[j], overflow);
-        sizes[j] += canTake;
-        overflow -= canTake;
-        j++;
-      }
-      // if still overflow, go backwards
-      j = i - 1;
-      while (overflow > 0 && j >= 0) {
-        const canTake = Math.min(maxPerTable - sizes[j], overflow);
-        sizes[j] += canTake;
-        overflow -= canTake;
-        j--;
-      }
-      if (overflow > 0)
-        throw new Error("Cannot fit players within maxPerTable");
-    }
-  }
-  return sizes;
-}
+  return (
+    <div className="mb-6 rounded-2xl bg-white shadow p-4">
+      <div className="text-sm font-medium mb-2">같이/따로 조건</div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          className="rounded-xl border px-3 py-2"
+          value={a}
+          onChange={(e) => setA(e.target.value)}
+        >
+          <option value="">선수 선택</option>
+          {names.map((n) => (
+            <option key={n} value={n}>
+              {n}
+            </option>
+          ))}
+        </select>
+        <select
+          className="rounded-xl border px-3 py-2"
+          value={kind}
+          onChange={(e) => setKind(e.target.value as PairConstraint["kind"])}
+        >
+          <option value="together">같이</option>
+          <option value="apart">따로</option>
+        </select>
+        <select
+          className="rounded-xl border px-3 py-2"
+          value={b}
+          onChange={(e) => setB(e.target.value)}
+        >
+          <option value="">선수 선택</option>
+          {names
+            .filter((n) => n !== a)
+            .map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+        </select>
+        <button
+          className="rounded-lg border px-3 py-1 text-xs"
+          disabled={!a || !b || a === b}
+          onClick={add}
+        >
+          추가
+        </button>
+      </div>
 
-function snakeOrder(k: number): number[] {
-  // e.g., k=4 => [0,1,2,3, 3,2,1,0, 0,1,2,3, ...]
-  const forward = Array.from({ length: k }, (_, i) => i);
-  const backward = Array.from({ length: k }, (_, i) => k - 1 - i);
-  return [...forward, ...backward];
+      {constraints.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {constraints.map((c, i) => {
+            const stale = !known.has(c.a) || !known.has(c.b);
+            return (
+              <li
+                key={`${c.kind}-${c.a}-${c.b}`}
+                className={`flex items-center justify-between ${
+                  stale ? "text-gray-400" : ""
+                }`}
+              >
+                <span>
+                  {c.a} {c.kind === "together" ? "＋" : "≠"} {c.b}{" "}
+                  <span className="text-xs text-gray-500">
+                    ({c.kind === "together" ? "같이" : "따로"}
+                    {stale && " · 명단에 없어 무시"})
+                  </span>
+                </span>
+                <button
+                  className="text-xs text-gray-500"
+                  onClick={() =>
+                    onChange(constraints.filter((_, j) => j !== i))
+                  }
+                >
+                  삭제
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-3 rounded-xl bg-red-50 p-3 text-xs text-red-600">
+          <div className="font-semibold mb-1">
+            조건을 만족할 수 없어 조건 없이 배치했습니다
+          </div>
+          <ul className="list-disc pl-4">
+            {errors.map((e) => (
+              <li key={e}>{e}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
 }
 
-function makeTeams(players: Player[], maxPerTable = 6) {
-  const n = players.length;
-  if (n === 0) return { teams: [], sizes: [], teamCount: 0 };
-
-  // 가드: maxPerTable이 0, 음수, NaN이 들어오지 않게
-  const cap = Math.max(2, Math.min(12, Math.floor(maxPerTable)));
-
-  const teamCount = decideTeamCount(n, cap);
-  const sizes = targetSizes(n, teamCount, cap);
-
-  const teams: Team[] = Array.from({ length: teamCount }, (_, idx) => ({
-    idx,
-    players: [],
-    sizeLimit: sizes[idx],
-  }));
-
-  const seeded = [...players].sort((a, b) => b.avg - a.avg);
-
-  const pattern = snakeOrder(teamCount);
-  let p = 0;
-
-  for (const pl of seeded) {
-    // 먼저 스네이크 순서대로 넣어보고
-    let placed = false;
-    for (let tries = 0; tries < pattern.length; tries++) {
-      const teamIdx = pattern[(p + tries) % pattern.length];
-      if (teams[teamIdx].players.length < teams[teamIdx].sizeLimit) {
-        teams[teamIdx].players.push(pl);
-        placed = true;
-        p = (p + tries + 1) % pattern.length;
-        break;
-      }
-    }
-    // 그래도 못 넣으면, 남는 팀 아무 데나 (절대 throw 안 함)
-    if (!placed) {
-      const t = teams.find((t) => t.players.length < t.sizeLimit) ?? teams[0];
-      t.players.push(pl);
-    }
-  }
+// ---------- Shared (read-only) View ----------
+function SharedMainView({ code }: { code: string }) {
+  const shared = useMemo(() => {
+    const r = decodeResult(code);
+    return r?.kind === "main" ? r : null;
+  }, [code]);
+
+  if (!shared)
+    return (
+      <div className="min-h-screen w-full bg-gray-50 px-6 py-10">
+        <div className="mx-auto max-w-5xl rounded-2xl bg-white shadow p-6 text-sm">
+          공유 링크가 올바르지 않거나 지원하지 않는 버전이에요.{" "}
+          <Link to="/main" className="text-purple-600 underline">
+            새로 만들기
+          </Link>
+        </div>
+      </div>
+    );
 
-  return { teams, sizes, teamCount };
-}
+  const { games, settings } = shared;
+  const handicap: HandicapConfig | null = settings.handicap && {
+    enabled: true,
+    ...settings.handicap,
+  };
+  const strength = handicap ? handicapStrength(handicap) : scratch;
+
+  return (
+    <div className="min-h-screen w-full bg-gray-50 px-6 py-10">
+      <div className="mx-auto max-w-5xl">
+        <div className="mb-4 flex items-center justify-between">
+          <h1 className="text-2xl font-bold">공유된 팀 배치 (읽기 전용)</h1>
+          <Link to="/main" className="text-sm text-purple-600 underline">
+            새로 만들기
+          </Link>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          테이블당 최대 {settings.maxPerTable}명 ·{" "}
+          {settings.balanceMode === "optimized" ? "최적화" : "스네이크"}
+          {handicap && ` · 핸디캡 기준 ${handicap.base} × ${handicap.percent}%`}
+          {games.length > 1 && ` · ${games.length}게임 세션`}
+        </p>
 
-function teamAvg(t: Team) {
-  if (t.players.length === 0) return 0;
-  const sum = t.players.reduce((s, p) => s + p.avg, 0);
-  return sum / t.players.length;
+        <div className="space-y-6">
+          {games.map((game, g) => {
+            const teams: Team[] = game.map((players, idx) => ({
+              idx,
+              players,
+              sizeLimit: players.length,
+            }));
+            return (
+              <div key={g}>
+                {games.length > 1 && (
+                  <h2 className="mb-2 font-semibold">{g + 1}게임</h2>
+                )}
+                <div className="grid md:grid-cols-3 gap-4">
+                  {teams.map((t) => (
+                    <div
+                      key={t.idx}
+                      className="rounded-2xl bg-white shadow p-4"
+                    >
+                      <div className="mb-2 flex items-center justify-between">
+                        <h3 className="font-semibold">
+                          {games.length > 1
+                            ? `레인 ${
+                                settings.startLane +
+                                ((t.idx + g) % teams.length)
+                              }`
+                            : `팀 ${t.idx + 1}`}
+                        </h3>
+                        <span className="text-xs text-gray-500">
+                          {t.players.length}명
+                        </span>
+                      </div>
+                      <div className="text-sm mb-2">
+                        팀 평균: <b>{teamAvg(t).toFixed(1)}</b>
+                        {handicap && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            핸디 포함 {teamAvg(t, strength).toFixed(1)}
+                          </span>
+                        )}
+                      </div>
+                      <ul className="space-y-1 text-sm">
+                        {t.players.map((p, i) => (
+                          <li
+                            key={p.name + i}
+                            className="flex justify-between border-b last:border-b-0 py-1"
+                          >
+                            <span>{p.name}</span>
+                            <span className="tabular-nums">
+                              {p.avg.toFixed(1)}
+                              {handicap && (
+                                <span className="ml-1 text-xs text-gray-500">
+                                  +{playerHandicap(p, handicap)}
+                                </span>
+                              )}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
 }
 
 // ---------- Demo Component ----------
 export default function MainPage() {
-  const [source, setSource] = useState<"manual" | "sheet">("sheet");
+  const [params] = useSearchParams();
+  const code = params.get("result");
+  if (code !== null) return <SharedMainView code={code} />;
+  return <TeamMaker />;
+}
+
+function TeamMaker() {
+  const [source, setSource] = useState<DataSource>("sheet");
   const [raw, setRaw] = useState("이름, 에버\n"); // 헤더 1행 포함 추천
   const [sheetLoading, setSheetLoading] = useState(false);
   const [sheetError, setSheetError] = useState<string | null>(null);
 
   const [maxPerTable, setMaxPerTable] = useState(6);
 
-  // 2) players는 항상 raw에서 파생
-  const players = useMemo(() => parsePlayers(raw), [raw]);
+  const [roster, setRoster] = useRoster();
+  const [history] = useHistory();
+
+  // 점수판에서 끝낸 게임 → 로스터 점수 기록 (바뀐 게 없으면 그대로)
+  useEffect(
+    () => setRoster((r) => syncScoreHistory(r, history)),
+    [history, setRoster]
+  );
+
+  // 2) players는 raw(또는 로스터 참석자)에서 파생
+  const { players: rawPlayers, issues: parseIssues } = useMemo(
+    () => parsePlayers(raw),
+    [raw]
+  );
+  const [useRecorded, setUseRecorded] = useState(true);
+  const recorded = useMemo(
+    () => applyRecordedAverages(rawPlayers, roster),
+    [rawPlayers, roster]
+  );
+  const rosterAverages = useMemo(
+    () =>
+      roster.players
+        .filter((p) => p.attending)
+        .map((p) => ({ name: p.name, ...playerAverage(p, roster.settings) })),
+    [roster]
+  );
+  const players = useMemo<Player[]>(
+    () =>
+      source === "roster"
+        ? rosterAverages.map(({ name, avg }) => ({ name, avg }))
+        : useRecorded
+        ? recorded.players
+        : rawPlayers,
+    [source, rosterAverages, useRecorded, recorded, rawPlayers]
+  );
+  // 기록이 모자라 임시 에버로 배치한 선수
+  const provisional = useMemo(
+    () =>
+      new Set(
+        (source === "roster"
+          ? rosterAverages
+          : useRecorded
+          ? recorded.updates
+          : []
+        )
+          .filter((a) => a.provisional)
+          .map((a) => a.name)
+      ),
+    [source, rosterAverages, useRecorded, recorded]
+  );
+
+  const [balanceMode, setBalanceMode] = useState<BalanceMode>("optimized");
+  const [handicap, setHandicap] = useState<HandicapConfig>(DEFAULT_HANDICAP);
+  // 기준 입력 중인 값 (지우고 새로 칠 수 있게, 클램프는 blur 때)
+  const [baseDraft, setBaseDraft] = useState<string | null>(null);
+  const commitBase = () => {
+    const v = Number(baseDraft);
+    if (baseDraft !== null && baseDraft.trim() && !Number.isNaN(v))
+      setHandicap((h) => ({
+        ...h,
+        base: Math.max(100, Math.min(300, Math.floor(v))),
+      }));
+    setBaseDraft(null);
+  };
+
+  // 핸디 사용 시 에버+핸디(핸디 포함 전력)로 밸런싱
+  const strength = useMemo(
+    () => (handicap.enabled ? handicapStrength(handicap) : scratch),
+    [handicap]
+  );
+
+  const [constraints, setConstraints] = useState<PairConstraint[]>([]);
+
+  const {
+    teams: snakeTeams,
+    teamCount,
+    errors: constraintErrors,
+  } = useMemo(
+    () => makeTeams(players, maxPerTable, strength, constraints),
+    [players, maxPerTable, strength, constraints]
+  );
+
+  // 만족 불가면 makeTeams가 조건 없이 배치하므로 최적화도 조건 없이
+  const optimizedTeams = useMemo(
+    () =>
+      optimizeTeams(
+        snakeTeams,
+        strength,
+        constraintErrors.length > 0 ? [] : constraints
+      ),
+    [snakeTeams, strength, constraints, constraintErrors]
+  );
+
+  const teams = balanceMode === "optimized" ? optimizedTeams : snakeTeams;
 
-  const { teams, teamCount } = useMemo(
-    () => makeTeams(players, maxPerTable),
-    [players, maxPerTable]
+  const [games, setGames] = useState(1);
+  const [startLane, setStartLane] = useState(1);
+
+  // 세션 계산은 무거워서 (인원이 많으면 1초 가까이) 버튼을 눌렀을 때만, 입력이 바뀌면 지움
+  const [session, setSession] = useState<SessionGame[]>([]);
+  useEffect(
+    () => setSession([]),
+    [players, maxPerTable, strength, constraints, games]
   );
+  const buildSession = () =>
+    setSession(planSession(players, maxPerTable, strength, constraints, games));
+
+  const sharedResult = (): SharedMainResult => ({
+    kind: "main",
+    games: (session.length > 0 ? session.map((g) => g.teams) : [teams]).map(
+      (ts) => ts.map((t) => t.players)
+    ),
+    settings: {
+      maxPerTable,
+      balanceMode,
+      handicap: handicap.enabled
+        ? { base: handicap.base, percent: handicap.percent }
+        : null,
+      startLane,
+    },
+  });
 
   const globalAvg = useMemo(() => {
     if (players.length === 0) return 0;
     return players.reduce((s, p) => s + p.avg, 0) / players.length;
   }, [players]);
 
+  const [sheetSettings, setSheetSettings] = useSheetSettings();
+  const [showSheetSettings, setShowSheetSettings] = useState(false);
+  const [sheetRows, setSheetRows] = useState<string[][] | null>(null);
+  const sheetUrl = gvizCsvUrl(sheetSettings);
+
   useEffect(() => {
     if (source !== "sheet") return;
 
-    const url =
-      "https://docs.google.com/spreadsheets/d/1Q97suapoy2sHlRz-mBHJzNCREqKuJgAVK98827avlBs/gviz/tq?tqx=out:csv&gid=0";
+    const url = sheetUrl;
+    if (!url) {
+      setSheetError("스프레드시트 링크가 올바르지 않습니다");
+      return;
+    }
 
     setSheetLoading(true);
     setSheetError(null);
 
-    fetch(url)
+    // 설정이 바뀌면 이전 요청은 취소 (늦게 온 응답이 새 데이터를 덮지 않게)
+    const ctrl = new AbortController();
+    const live = () => !ctrl.signal.aborted;
+    fetch(url, { signal: ctrl.signal })
       .then((r) => {
         if (!r.ok) throw new Error(`HTTP ${r.status}`);
         return r.text();
       })
-      .then((csv) => {
-        // CSV -> raw (그대로 붙여넣기 가능한 텍스트로)
-        // A: 이름, B: 에버 가정. 헤더 포함이면 그대로 두는 게 파싱에 유리.
-        // 헤더 없으면 수동으로 추가해도 됨: setRaw("이름, 에버\n" + csv)
-        setRaw(csv.trim());
+      .then((csv) => live() && setSheetRows(parseCsvRows(csv.trim())))
+      .catch((e) => live() && setSheetError(String(e)))
+      .finally(() => live() && setSheetLoading(false));
+    return () => {
+      ctrl.abort();
+      setSheetLoading(false);
+    };
+  }, [source, sheetUrl]);
+
+  // 시트 행 + 열 매핑 → raw (그대로 붙여넣기 가능한 "이름, 에버" 텍스트로)
+  const { hasHeader, nameCol, avgCol, attendCol } = sheetSettings;
+  useEffect(() => {
+    if (!sheetRows) return;
+    setRaw(
+      rowsToRosterText(sheetRows, {
+        hasHeader,
+        nameCol,
+        avgCol,
+        attendCol,
       })
-      .catch((e) => setSheetError(String(e)))
-      .finally(() => setSheetLoading(false));
-  }, [source]);
+    );
+  }, [sheetRows, hasHeader, nameCol, avgCol, attendCol]);
 
   return (
     <div className="min-h-screen w-full bg-gray-50 px-6 py-10">
       <div className="mx-auto max-w-5xl">
         <h1 className="text-2xl font-bold mb-4">
-          볼링 팀 자동분배 (시드 + 스네이크)
+          볼링 팀 자동분배 (시드 +{" "}
+          {balanceMode === "optimized" ? "최적화" : "스네이크"})
         </h1>
         <p className="text-sm text-gray-600 mb-2">
           인원 {players.length}명, 테이블당 최대 {maxPerTable}명 → 팀 수{" "}
@@ -185,10 +517,11 @@ export default function MainPage() {
           <select
             className="rounded-xl border px-3 py-2 text-sm"
             value={source}
-            onChange={(e) => setSource(e.target.value as "manual" | "sheet")}
+            onChange={(e) => setSource(e.target.value as DataSource)}
           >
             <option value="sheet">스프레드시트(CSV)</option>
             <option value="manual">수동 입력</option>
+            <option value="roster">로스터(저장된 명단)</option>
           </select>
           {source === "sheet" && (
             <>
@@ -210,25 +543,98 @@ export default function MainPage() {
               >
                 새로고침
               </button>
+              <button
+                className="rounded-lg border px-3 py-1 text-xs"
+                onClick={() => setShowSheetSettings((v) => !v)}
+              >
+                시트 설정
+              </button>
             </>
           )}
         </div>
 
+        {source === "sheet" && showSheetSettings && (
+          <SheetSettingsPanel
+            settings={sheetSettings}
+            onChange={setSheetSettings}
+            header={sheetRows?.[0] ?? []}
+          />
+        )}
+
         <div className="grid md:grid-cols-2 gap-4 mb-6">
-          <div className="flex flex-col">
-            <label className="text-sm font-medium mb-2">
-              명단 입력 (이름, 에버)
-            </label>
-            <textarea
-              value={raw}
-              onChange={(e) => setRaw(e.target.value)}
-              className="h-48 w-full rounded-2xl border px-3 py-2 text-sm shadow-sm focus:outline-none"
-              placeholder="예) 이름, 155  (CSV/헤더 허용: '이름, 에버')"
-            />
-            <p className="mt-2 text-xs text-gray-500">
-              CSV 또는 한 줄에 한 명. 헤더가 있어도 자동 인식.
-            </p>
-          </div>
+          {source === "roster" ? (
+            <div className="flex flex-col">
+              <label className="text-sm font-medium mb-2">
+                로스터 (참석자 체크)
+              </label>
+              <RosterPanel
+                roster={roster}
+                onChange={setRoster}
+                importCandidates={rawPlayers}
+              />
+            </div>
+          ) : (
+            <div className="flex flex-col">
+              <label className="text-sm font-medium mb-2">
+                명단 입력 (이름, 에버)
+              </label>
+              <textarea
+                value={raw}
+                onChange={(e) => setRaw(e.target.value)}
+                className="h-48 w-full rounded-2xl border px-3 py-2 text-sm shadow-sm focus:outline-none"
+                placeholder="예) 이름, 155  (CSV/헤더 허용: '이름, 에버')"
+              />
+              <p className="mt-2 text-xs text-gray-500">
+                CSV/TSV(엑셀 붙여넣기) 또는 한 줄에 한 명. 헤더가 있어도 자동
+                인식. 이름에 쉼표가 있으면 "김, J"처럼 따옴표로 감싸기.
+              </p>
+              {parseIssues.length > 0 && (
+                <ul className="mt-2 max-h-32 overflow-y-auto space-y-0.5 text-xs">
+                  {parseIssues.map((issue, i) => (
+                    <li
+                      key={i}
+                      className={
+                        issue.level === "error"
+                          ? "text-red-500"
+                          : "text-amber-600"
+                      }
+                    >
+                      {issue.line}행 ·{" "}
+                      {issue.level === "error" ? "오류" : "경고"}:{" "}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <label className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={useRecorded}
+                  onChange={(e) => setUseRecorded(e.target.checked)}
+                />
+                {`로스터 선수는 기록 에버로 (${roster.settings.minGames}게임 미만이면 임시)`}
+              </label>
+              {useRecorded && recorded.updates.length > 0 && (
+                <ul className="mt-1 max-h-32 overflow-y-auto space-y-0.5 text-xs text-gray-600">
+                  {/* 같은 이름이 두 번 입력될 수 있어 순서로 key */}
+                  {recorded.updates.map((u, i) => (
+                    <li key={i}>
+                      {u.name}: {u.from} →{" "}
+                      <b className="tabular-nums">{u.avg.toFixed(1)}</b> (
+                      {u.games > 0 ? `${u.games}게임` : "기록 없음"}
+                      {u.provisional ? ", 임시" : ""})
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {useRecorded && recorded.unlisted.length > 0 && (
+                <p className="mt-1 text-xs text-gray-500">
+                  로스터에 없음, 입력 에버 그대로:{" "}
+                  {recorded.unlisted.join(", ")}
+                </p>
+              )}
+            </div>
+          )}
 
           <div className="flex flex-col">
             <label className="text-sm font-medium mb-2">테이블 최대 인원</label>
@@ -249,9 +655,134 @@ export default function MainPage() {
             <div className="mt-4 text-sm">
               전체 평균: <b>{globalAvg.toFixed(1)}</b>
             </div>
+
+            <label className="text-sm font-medium mt-4 mb-2">
+              게임 수 / 시작 레인
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                max={5}
+                value={games}
+                onChange={(e) => {
+                  const v = Number(e.target.value);
+                  if (Number.isNaN(v)) return;
+                  setGames(Math.max(1, Math.min(5, Math.floor(v))));
+                }}
+                className="w-20 rounded-2xl border px-3 py-2 text-sm shadow-sm"
+              />
+              <input
+                type="number"
+                min={1}
+                max={99}
+                value={startLane}
+                onChange={(e) => {
+                  const v = Number(e.target.value);
+                  if (Number.isNaN(v)) return;
+                  setStartLane(Math.max(1, Math.min(99, Math.floor(v))));
+                }}
+                className="w-20 rounded-2xl border px-3 py-2 text-sm shadow-sm"
+              />
+            </div>
+            {games > 1 && (
+              <button
+                onClick={buildSession}
+                disabled={players.length === 0 || session.length > 0}
+                className="mt-2 w-40 rounded-lg border px-3 py-1 text-xs disabled:text-gray-400"
+              >
+                {games}게임 세션 짜기
+              </button>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              2게임 이상이면 세션 짜기를 눌러 같은 팀 중복이 적도록 게임별로
+              다시 짜고, 레인은 게임마다 한 칸씩 회전.
+            </p>
+
+            <label className="text-sm font-medium mt-4 mb-2">배치 방식</label>
+            <div className="flex flex-col gap-2 text-sm">
+              {(
+                [
+                  ["snake", "스네이크만", snakeTeams],
+                  ["optimized", "최적화 (스왑/전수 탐색)", optimizedTeams],
+                ] as const
+              ).map(([mode, label, ts]) => (
+                <label key={mode} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="balanceMode"
+                    checked={balanceMode === mode}
+                    onChange={() => setBalanceMode(mode)}
+                  />
+                  <span>{label}</span>
+                  <span className="text-xs text-gray-500">
+                    팀 평균 편차 {teamSpread(ts, strength).toFixed(1)}
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <label className="text-sm font-medium mt-4 mb-2 flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={handicap.enabled}
+                onChange={(e) =>
+                  setHandicap((h) => ({ ...h, enabled: e.target.checked }))
+                }
+              />
+              핸디캡 적용
+            </label>
+            {handicap.enabled && (
+              <div className="flex items-center gap-2 text-sm">
+                <span>기준</span>
+                <input
+                  type="number"
+                  min={100}
+                  max={300}
+                  value={baseDraft ?? handicap.base}
+                  onChange={(e) => setBaseDraft(e.target.value)}
+                  onBlur={commitBase}
+                  onKeyDown={(e) => e.key === "Enter" && commitBase()}
+                  className="w-20 rounded-2xl border px-3 py-1 text-sm shadow-sm"
+                />
+                <span>비율(%)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={handicap.percent}
+                  onChange={(e) => {
+                    const v = Number(e.target.value);
+                    if (Number.isNaN(v)) return;
+                    setHandicap((h) => ({
+                      ...h,
+                      percent: Math.max(0, Math.min(100, Math.floor(v))),
+                    }));
+                  }}
+                  className="w-20 rounded-2xl border px-3 py-1 text-sm shadow-sm"
+                />
+              </div>
+            )}
           </div>
         </div>
 
+        <div className="mb-4 flex items-center justify-end gap-2">
+          <Link
+            to={`/score?result=${encodeResult(sharedResult())}`}
+            className="rounded-lg border px-3 py-1 text-xs"
+          >
+            점수 기록
+          </Link>
+          <ShareButton makeUrl={() => shareUrl("/main", sharedResult())} />
+        </div>
+
+        <ConstraintEditor
+          players={players}
+          constraints={constraints}
+          errors={constraintErrors}
+          onChange={setConstraints}
+        />
+
         <div className="grid md:grid-cols-3 gap-4">
           {teams.map((t) => (
             <div key={t.idx} className="rounded-2xl bg-white shadow p-4">
@@ -264,14 +795,39 @@ export default function MainPage() {
               <div className="text-sm mb-2">
                 팀 평균: <b>{teamAvg(t).toFixed(1)}</b>
               </div>
+              {handicap.enabled && (
+                <div className="text-xs text-gray-600 mb-2">
+                  스크래치 {teamTotal(t, scratch).toFixed(0)} + 핸디{" "}
+                  {teamTotal(t, (p) => playerHandicap(p, handicap))} ={" "}
+                  <b>{teamTotal(t, strength).toFixed(0)}</b> (평균{" "}
+                  {teamAvg(t, strength).toFixed(1)})
+                </div>
+              )}
               <ul className="space-y-1 text-sm">
                 {t.players.map((p, i) => (
                   <li
                     key={p.name + i}
                     className="flex justify-between border-b last:border-b-0 py-1"
                   >
-                    <span>{p.name}</span>
-                    <span className="tabular-nums">{p.avg.toFixed(1)}</span>
+                    <span>
+                      {p.name}
+                      {provisional.has(p.name) && (
+                        <span
+                          className="ml-1 rounded-full bg-amber-50 px-1.5 text-[10px] text-amber-600"
+                          title="기록이 모자라 임시 에버"
+                        >
+                          임시
+                        </span>
+                      )}
+                    </span>
+                    <span className="tabular-nums">
+                      {p.avg.toFixed(1)}
+                      {handicap.enabled && (
+                        <span className="ml-1 text-xs text-gray-500">
+                          +{playerHandicap(p, handicap)}
+                        </span>
+                      )}
+                    </span>
                   </li>
                 ))}
               </ul>
@@ -279,45 +835,55 @@ export default function MainPage() {
           ))}
         </div>
 
+        {session.length > 0 && (
+          <section className="mt-8 space-y-6">
+            <h2 className="text-lg font-bold">
+              {games}게임 세션 (레인 로테이션)
+            </h2>
+            {session.map((game, g) => (
+              <div key={g} className="rounded-2xl bg-white shadow p-4">
+                <div className="mb-3 flex items-center justify-between">
+                  <h3 className="font-semibold">{g + 1}게임</h3>
+                  <span className="text-xs text-gray-500">
+                    팀 평균 편차 {teamSpread(game.teams, strength).toFixed(1)} ·
+                    중복 페어 {game.pairRepeats}쌍
+                  </span>
+                </div>
+                <div className="grid md:grid-cols-3 gap-3">
+                  {game.teams.map((t) => (
+                    <div key={t.idx} className="rounded-xl border p-3 text-sm">
+                      <div className="mb-1 flex items-center justify-between">
+                        <span className="font-medium">
+                          레인 {startLane + ((t.idx + g) % game.teams.length)}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          평균 {teamAvg(t, strength).toFixed(1)}
+                        </span>
+                      </div>
+                      <div className="text-gray-700">
+                        {t.players.map((p) => p.name).join(", ")}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </section>
+        )}
+
         <div className="mt-8 text-xs text-gray-500">
           <p>
             배치 로직: 상위 에버부터 정렬 → 스네이크(정/역순 반복)로 팀에 배치 →
-            각 팀은 목표 인원 제한을 초과하지 않게 채움.
+            각 팀은 목표 인원 제한을 초과하지 않게 채움. 최적화 모드는 스네이크
+            결과에서 출발해 팀 간 1:1 교환(12명 이하는 전수 탐색)으로 팀 평균
+            편차(최고-최저)를 최소화. 핸디캡 적용 시 에버 대신 에버+핸디 (핸디 =
+            (기준 - 에버) × 비율)로 밸런싱. 같이/따로 조건이 있으면 같이 묶인
+            선수를 한 단위로 배치하고, 목표 인원으로 불가능하면 테이블 최대
+            인원까지 허용. 여러 게임 세션은 게임마다 팀 평균 편차와 이전
+            게임에서 이미 같은 팀이었던 페어 수를 함께 줄이도록 다시 배치.
           </p>
         </div>
       </div>
     </div>
   );
 }
-
-// ---------- Helpers ----------
-function parsePlayers(input: string): Player[] {
-  if (!input?.trim()) return [];
-
-  const lines = input.trim().split(/\r?\n/);
-
-  // 1) 헤더 자동 감지 (첫 줄에 '이름'과 '에버'가 있으면 스킵)
-  const hasHeader = /이름/i.test(lines[0]) && /에버|평균|avg/i.test(lines[0]);
-
-  const dataLines = hasHeader ? lines.slice(1) : lines;
-
-  return dataLines
-    .map((line) => line.trim())
-    .filter(Boolean)
-    .map((line) => {
-      // CSV 우선
-      const comma = line.split(",");
-      if (comma.length >= 2) {
-        const name = comma[0]?.trim() ?? "";
-        const avg = Number((comma[1] ?? "").replace(/[^0-9.]/g, ""));
-        return name ? { name, avg: isNaN(avg) ? 0 : avg } : null;
-      }
-      // 공백 구분 보조
-      const parts = line.split(/\s+/);
-      const avgTok = parts.at(-1) ?? "";
-      const avg = Number(String(avgTok).replace(/[^0-9.]/g, ""));
-      const name = parts.slice(0, -1).join(" ");
-      return name ? { name, avg: isNaN(avg) ? 0 : avg } : null;
-    })
-    .filter((p): p is Player => Boolean(p));
-}
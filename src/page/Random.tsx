@@ -1,4 +1,29 @@
 import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import {
+  countPairRepeats,
+  pairKey,
+  pairMeetings,
+  type TeamAssignment,
+} from "../core/pairs";
+import { createRng, randomSeed } from "../core/random";
+import { sameDrawGroups, type Group } from "../core/groups";
+import {
+  planOneRound,
+  scheduleRounds,
+  sizeConflicts,
+  unevenGroups,
+  type SizeOptions,
+} from "../core/rounds";
+import {
+  decodeResult,
+  encodeResult,
+  shareUrl,
+  type SharedRandomResult,
+} from "../core/share";
+import { useGroupPresets, useGroups } from "../store/groups";
+import GroupEditor from "../components/GroupEditor";
+import ShareButton from "../components/ShareButton";
 
 /**
  * RandomPage – 그룹 기반 랜덤 팀 배치 (에버 없음)
@@ -7,137 +32,280 @@ import { useMemo, useState } from "react";
  * 2) 인원수/팀 수에 따라 팀 구성 (예: 총 3팀)
  * 3) 그룹(1~N 그룹)에서 무작위로 팀에 배치
  * 4) 그룹별로 가능한 한 공평하게 1팀,2팀,3팀에 분배 (라운드마다 시작 팀을 회전)
- * 5) 인원부족/불균형 허용 (팀 크기는 달라도 됨)
+ * 5) 인원부족/불균형 허용 (팀 크기는 달라도 됨) – 옵션으로 팀 인원 균등/팀당 최대 인원 지정
  * 6) 총 3번 돌려서(3라운드) 다양한 조합 제공
  *
  * 구현 포인트:
  * - 각 라운드마다: 그룹별로 셔플 → (i + roundOffset) % teamCount 규칙으로 라운드로빈 분배
  * - 라운드마다 시작팀 오프셋을 바꿔(회전) 다양한 조합 유도
  * - 간단한 중복 페어(동일 팀 경험) 카운트 표시 – variety 지표
+ * - 시드 고정 난수로 셔플 → 시드를 다시 입력하면 같은 추첨 재현
+ *   (공유 링크에는 시드/추첨 옵션/그룹이 함께 들어가고, "이 설정으로 다시 추첨"이 옵션을 복원,
+ *    그룹이 지금 그룹과 다르면 경고하고 공유된 그룹으로 바꿀 수 있게)
+ * - 중복 최소화 모드: 전 라운드를 함께 짜서 같은 그룹끼리 교환하며 반복 페어를 줄임
+ * - 그룹은 추가/이름 변경/삭제/순서 변경 가능, 편집 내용과 프리셋은 localStorage에 저장
  */
 
-type GroupsMap = Record<string, string[]>; // { "1그룹": ["이름", ...], ... }
-
-type TeamAssignment = string[][]; // teams[teamIdx] = [names]
-
 type RoundResult = {
   teams: TeamAssignment;
   pairRepeats: number; // 누적 페어 중복 수(이전 라운드 대비)
 };
 
-const DEFAULT_GROUPS: GroupsMap = {
-  "1그룹": ["이희재", "양효천", "박세현", "정서윤", "임지수", "김지윤"],
-  "2그룹": ["유혜정", "신현섭", "최대한", "이기정", "곽대현", "최연식"],
-  "3그룹": ["황지민", "김강엽", "정기훈"],
-};
+// 저장된 그룹이 없을 때(첫 방문)만 사용
+const DEFAULT_GROUPS: Group[] = [
+  {
+    name: "1그룹",
+    members: ["이희재", "양효천", "박세현", "정서윤", "임지수", "김지윤"],
+  },
+  {
+    name: "2그룹",
+    members: ["유혜정", "신현섭", "최대한", "이기정", "곽대현", "최연식"],
+  },
+  { name: "3그룹", members: ["황지민", "김강엽", "정기훈"] },
+];
 
-function shuffle<T>(arr: T[]): T[] {
-  const a = [...arr];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
-  }
-  return a;
-}
+/* -------------------- 페어 만남 행렬 -------------------- */
+function PairMatrix({
+  rounds,
+  names,
+}: {
+  rounds: TeamAssignment[];
+  names?: string[]; // 표시 순서 (없으면 등장 순서)
+}) {
+  const meetings = useMemo(() => pairMeetings(rounds), [rounds]);
+  const order = names ?? [...new Set(rounds.flat(2))];
+  const maxMeet = Math.max(0, ...meetings.values());
 
-function distributeGroupToTeams(
-  players: string[],
-  teamCount: number,
-  startOffset: number
-): TeamAssignment {
-  const teams: TeamAssignment = Array.from({ length: teamCount }, () => []);
-  const shuffled = shuffle(players);
-  shuffled.forEach((name, idx) => {
-    const teamIdx = (idx + startOffset) % teamCount; // 라운드마다 시작팀 회전
-    teams[teamIdx].push(name);
-  });
-  return teams;
-}
+  const cellClass = (m: number) =>
+    m === 0
+      ? "text-gray-300"
+      : m === 1
+      ? "bg-purple-100 text-purple-700"
+      : "bg-rose-200 font-semibold text-rose-700";
 
-function mergeTeams(into: TeamAssignment, add: TeamAssignment) {
-  for (let i = 0; i < into.length; i++) into[i].push(...add[i]);
+  return (
+    <section className="mt-8 rounded-3xl bg-white/90 p-5 shadow ring-1 ring-purple-100">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-lg font-bold">페어 만남 행렬</h2>
+        <span className="text-xs text-gray-500">
+          같은 팀이 된 횟수 · 최대 {maxMeet}회
+        </span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="border-collapse text-[11px]">
+          <thead>
+            <tr>
+              <th />
+              {order.map((n) => (
+                <th
+                  key={n}
+                  className="px-1 font-medium text-gray-500 [writing-mode:vertical-rl]"
+                >
+                  {n}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {order.map((a) => (
+              <tr key={a}>
+                <th className="whitespace-nowrap pr-2 text-right font-medium text-gray-500">
+                  {a}
+                </th>
+                {order.map((b) => {
+                  const m = a === b ? -1 : meetings.get(pairKey(a, b)) ?? 0;
+                  return (
+                    <td
+                      key={b}
+                      className={`h-6 w-6 border border-purple-50 text-center tabular-nums ${
+                        m < 0 ? "bg-gray-50" : cellClass(m)
+                      }`}
+                    >
+                      {m < 0 ? "" : m}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
 }
 
-function buildPairs(teams: TeamAssignment): Set<string> {
-  const key = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
-  const pairs = new Set<string>();
-  for (const team of teams) {
-    for (let i = 0; i < team.length; i++) {
-      for (let j = i + 1; j < team.length; j++) {
-        pairs.add(key(team[i], team[j]));
-      }
-    }
-  }
-  return pairs;
+/* -------------------- 결과 렌더 -------------------- */
+function RoundsView({ results }: { results: RoundResult[] }) {
+  return (
+    <section className="space-y-8">
+      {results.map((round, rIdx) => (
+        <div
+          key={rIdx}
+          className="rounded-3xl bg-white/90 p-5 shadow ring-1 ring-purple-100"
+        >
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-lg font-bold">Round {rIdx + 1}</h2>
+            <span className="text-xs text-gray-500">
+              중복 페어: {round.pairRepeats}쌍
+            </span>
+          </div>
+          <div className="grid gap-4 md:grid-cols-3">
+            {round.teams.map((team, tIdx) => (
+              <div
+                key={tIdx}
+                className="rounded-2xl border border-purple-100 bg-white p-4 shadow-sm"
+              >
+                <div className="mb-2 flex items-center justify-between">
+                  <div className="text-sm font-semibold text-purple-700">
+                    {tIdx + 1}팀
+                  </div>
+                  <div className="text-xs text-gray-400">{team.length}명</div>
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {team.map((name, i) => (
+                    <li
+                      key={name + i}
+                      className="rounded-lg bg-purple-50/40 px-2 py-1"
+                    >
+                      {name}
+                    </li>
+                  ))}
+                  {team.length === 0 && (
+                    <li className="text-xs text-gray-400">— 빈 팀 —</li>
+                  )}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </section>
+  );
 }
 
-function planOneRound(
-  groups: GroupsMap,
-  teamCount: number,
-  roundIdx: number
-): TeamAssignment {
-  const result: TeamAssignment = Array.from({ length: teamCount }, () => []);
-  // 그룹 순서 자체도 셔플하여 편향 방지
-  const groupEntries = shuffle(Object.entries(groups));
-  for (const [groupName, members] of groupEntries) {
-    if (!members || members.length === 0) continue;
-    // 그룹 내 셔플 + 시작 팀 오프셋 적용
-    const offset = (roundIdx + groupName.length) % teamCount; // 그룹별로도 약간 변화
-    const byGroup = distributeGroupToTeams(members, teamCount, offset);
-    mergeTeams(result, byGroup);
-  }
-  // 팀 내부도 살짝 셔플(표시상 편향 완화)
-  for (let i = 0; i < result.length; i++) result[i] = shuffle(result[i]);
-  return result;
-}
+function SharedRandomView({ code }: { code: string }) {
+  const shared = useMemo(() => {
+    const r = decodeResult(code);
+    return r?.kind === "random" ? r : null;
+  }, [code]);
 
-function countPairRepeats(
-  prevPairs: Set<string>,
-  currentTeams: TeamAssignment
-) {
-  const now = buildPairs(currentTeams);
-  let repeats = 0;
-  for (const p of now) if (prevPairs.has(p)) repeats++;
-  return { repeats, pairSet: new Set([...prevPairs, ...now]) };
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-br from-white to-purple-50 px-6 py-8">
+      <div className="mx-auto max-w-6xl">
+        <header className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-extrabold text-purple-700">
+              공유된 랜덤 배치 (읽기 전용)
+            </h1>
+            {shared && (
+              <p className="text-xs text-gray-500">
+                {shared.settings.teamCount}팀 · {shared.rounds.length}라운드
+                {shared.seed && ` · 시드 ${shared.seed}`}
+                {shared.settings.minimizeRepeats && " · 중복 최소화"}
+                {shared.settings.evenSizes && " · 팀 인원 고르게"}
+                {shared.settings.maxPerTeam !== null &&
+                  ` · 팀당 최대 ${shared.settings.maxPerTeam}명`}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-3 text-sm">
+            {shared?.seed && (
+              <Link
+                to={`/random?replay=${code}`}
+                className="text-purple-600 underline"
+              >
+                이 설정으로 다시 추첨
+              </Link>
+            )}
+            <Link to="/random" className="text-purple-600 underline">
+              새로 만들기
+            </Link>
+          </div>
+        </header>
+        {shared ? (
+          <>
+            <RoundsView
+              results={shared.rounds.map((teams, i) => ({
+                teams,
+                pairRepeats: shared.pairRepeats[i] ?? 0,
+              }))}
+            />
+            <PairMatrix rounds={shared.rounds} />
+          </>
+        ) : (
+          <div className="rounded-2xl bg-white p-4 text-sm shadow ring-1 ring-purple-100">
+            공유 링크가 올바르지 않거나 지원하지 않는 버전이에요.
+          </div>
+        )}
+      </div>
+    </div>
+  );
 }
 
 export default function RandomPage() {
-  const [teamCount, setTeamCount] = useState<number>(3);
-  const [groups, setGroups] = useState<GroupsMap>(DEFAULT_GROUPS);
-  const [rounds, setRounds] = useState<number>(3);
+  const [params] = useSearchParams();
+  const code = params.get("result");
+  const replay = params.get("replay");
+  const initial = useMemo(() => {
+    const r = replay === null ? null : decodeResult(replay);
+    return r?.kind === "random" ? r : null;
+  }, [replay]);
+  if (code !== null) return <SharedRandomView code={code} />;
+  return <RandomMaker key={replay ?? ""} initial={initial} />;
+}
+
+// initial: 공유 링크의 시드/옵션으로 시작 (그룹은 지금 그룹을 덮어쓰지 않고, 다르면 경고)
+function RandomMaker({ initial }: { initial: SharedRandomResult | null }) {
+  const init = initial?.settings;
+  const [teamCount, setTeamCount] = useState<number>(init?.teamCount ?? 3);
+  const [groups, setGroups] = useGroups(DEFAULT_GROUPS);
+  const [presets, setPresets] = useGroupPresets();
+  const [rounds, setRounds] = useState<number>(init?.rounds ?? 3);
   const [results, setResults] = useState<RoundResult[]>([]);
+  // 비워 두면 매번 새 시드, 입력하면 그 시드로 같은 추첨을 재현
+  const [seedInput, setSeedInput] = useState(initial?.seed ?? "");
+  const [minimizeRepeats, setMinimizeRepeats] = useState(
+    init?.minimizeRepeats ?? true
+  );
+  const [evenSizes, setEvenSizes] = useState(init?.evenSizes ?? false);
+  // 비우면 제한 없음
+  const [maxPerTeamInput, setMaxPerTeamInput] = useState(
+    init?.maxPerTeam ? String(init.maxPerTeam) : ""
+  );
+  const [lastRun, setLastRun] = useState<{
+    seed: string;
+    teamCount: number;
+    rounds: number;
+    minimizeRepeats: boolean;
+    sizeOpts: SizeOptions;
+    groups: Group[];
+    unevenGroups: string[];
+  } | null>(null);
+  const sharedGroups = initial?.groups ?? null;
+  const groupsDiffer =
+    sharedGroups !== null && !sameDrawGroups(groups, sharedGroups);
 
   const totalPeople = useMemo(
-    () => Object.values(groups).reduce((s, g) => s + g.length, 0),
+    () => groups.reduce((s, g) => s + g.members.length, 0),
     [groups]
   );
 
-  // 그룹 키의 숫자 순서(1그룹, 2그룹, 3그룹 ...)를 보장
-  const sortGroupKeys = (keys: string[]) => {
-    const num = (k: string) => {
-      const m = k.match(/\d+/);
-      return m ? Number(m[0]) : Number.MAX_SAFE_INTEGER;
+  const sizeOpts: SizeOptions = useMemo(() => {
+    const v = Math.floor(Number(maxPerTeamInput));
+    return {
+      evenSizes,
+      maxPerTeam: maxPerTeamInput.trim() && v >= 1 ? v : null,
     };
-    return [...keys].sort((a, b) => num(a) - num(b));
-  };
+  }, [evenSizes, maxPerTeamInput]);
 
-  // name -> groupKey 매핑 만들기
-  const buildNameToGroup = (groups: GroupsMap) => {
-    const map: Record<string, string> = {};
-    for (const [gKey, names] of Object.entries(groups)) {
-      for (const n of names) map[n] = gKey;
-    }
-    return map;
-  };
+  const conflicts = sizeConflicts(totalPeople, teamCount, sizeOpts);
 
-  // 팀을 '그룹 순서'로 정렬 (동일 그룹 내에서는 가나다 정렬)
+  // 팀을 '그룹 순서'(편집 화면 순서)로 정렬 (동일 그룹 내에서는 가나다 정렬)
   const sortTeamByGroupOrder = (
     team: string[],
-    nameToGroup: Record<string, string>,
-    orderedGroupKeys: string[]
+    groupIndex: Map<string, number>
   ) => {
-    const idx = (name: string) =>
-      orderedGroupKeys.indexOf(nameToGroup[name] ?? "");
+    const idx = (name: string) => groupIndex.get(name) ?? -1;
     return [...team].sort((a, b) => {
       const da = idx(a);
       const db = idx(b);
@@ -149,17 +317,26 @@ export default function RandomPage() {
   const runRandomize = () => {
     const r: RoundResult[] = [];
     let pairMemo = new Set<string>();
+    const seed = seedInput.trim() || randomSeed();
+    const rng = createRng(seed);
 
-    // 그룹 순서/매핑 준비
-    const orderedGroupKeys = sortGroupKeys(Object.keys(groups));
-    const nameToGroup = buildNameToGroup(groups);
+    // 이름 → 그룹 순서 (여러 그룹에 있으면 앞쪽 그룹)
+    const groupIndex = new Map<string, number>();
+    groups.forEach((g, i) => {
+      for (const m of g.members) if (!groupIndex.has(m)) groupIndex.set(m, i);
+    });
 
-    for (let round = 0; round < rounds; round++) {
-      let teams = planOneRound(groups, teamCount, round);
+    // 중복 최소화: 모든 라운드를 함께 스케줄링 / 아니면 라운드별 회전 분배
+    const planned = minimizeRepeats
+      ? scheduleRounds(groups, teamCount, rounds, rng, sizeOpts)
+      : Array.from({ length: rounds }, (_, round) =>
+          planOneRound(groups, teamCount, round, rng, sizeOpts)
+        );
 
-      // ⬇️ 각 팀을 '1그룹 → 2그룹 → 3그룹' 순으로 정렬
-      teams = teams.map((team) =>
-        sortTeamByGroupOrder(team, nameToGroup, orderedGroupKeys)
+    for (const plannedTeams of planned) {
+      // ⬇️ 각 팀을 그룹 순서(1그룹 → 2그룹 → ...)로 정렬
+      const teams = plannedTeams.map((team) =>
+        sortTeamByGroupOrder(team, groupIndex)
       );
 
       const { repeats, pairSet } = countPairRepeats(pairMemo, teams);
@@ -167,15 +344,36 @@ export default function RandomPage() {
       r.push({ teams, pairRepeats: repeats });
     }
     setResults(r);
+    setLastRun({
+      seed,
+      teamCount,
+      rounds,
+      minimizeRepeats,
+      sizeOpts,
+      groups,
+      // 정원 제한이 있을 때만 의미 있음 (없으면 라운드로빈이라 항상 고름)
+      unevenGroups:
+        sizeOpts.evenSizes || sizeOpts.maxPerTeam !== null
+          ? unevenGroups(groups, planned)
+          : [],
+    });
   };
 
-  const updateGroupText = (key: string, text: string) => {
-    const names = text
-      .split(/\n|\r|,|;|\t/)
-      .map((v) => v.trim())
-      .filter(Boolean);
-    setGroups((prev) => ({ ...prev, [key]: names }));
-  };
+  const sharedResult = (
+    run: NonNullable<typeof lastRun>
+  ): SharedRandomResult => ({
+    kind: "random",
+    rounds: results.map((r) => r.teams),
+    pairRepeats: results.map((r) => r.pairRepeats),
+    settings: {
+      teamCount: run.teamCount,
+      rounds: run.rounds,
+      minimizeRepeats: run.minimizeRepeats,
+      ...run.sizeOpts,
+    },
+    seed: run.seed,
+    groups: run.groups,
+  });
 
   return (
     <div className="min-h-screen w-full bg-gradient-to-br from-white to-purple-50 px-6 py-8">
@@ -201,7 +399,7 @@ export default function RandomPage() {
 
         {/* 설정 카드 */}
         <section className="mb-6 rounded-3xl bg-white/90 p-5 shadow ring-1 ring-purple-100">
-          <div className="grid gap-4 md:grid-cols-3">
+          <div className="grid gap-4 md:grid-cols-4">
             <div>
               <label className="text-sm font-medium">팀 수</label>
               <input
@@ -236,6 +434,26 @@ export default function RandomPage() {
               />
               <p className="mt-1 text-xs text-gray-500">요청: 기본 3회</p>
             </div>
+            <div>
+              <label className="text-sm font-medium">시드</label>
+              <input
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value)}
+                placeholder="비우면 새로 생성"
+                className="mt-2 w-full rounded-2xl border px-3 py-2 font-mono text-sm shadow-sm"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                같은 시드 + 같은 그룹이면 같은 결과
+              </p>
+              <label className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={minimizeRepeats}
+                  onChange={(e) => setMinimizeRepeats(e.target.checked)}
+                />
+                중복 페어 최소화 (라운드 전체 스케줄링)
+              </label>
+            </div>
             <div className="flex items-end">
               <button
                 onClick={runRandomize}
@@ -245,83 +463,117 @@ export default function RandomPage() {
               </button>
             </div>
           </div>
+          <div className="mt-4 flex flex-wrap items-center gap-4 border-t border-purple-50 pt-4 text-sm">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={evenSizes}
+                onChange={(e) => setEvenSizes(e.target.checked)}
+              />
+              팀 인원 균등 (차이 최대 1명)
+            </label>
+            <label className="flex items-center gap-2">
+              팀(레인)당 최대
+              <input
+                type="number"
+                min={1}
+                value={maxPerTeamInput}
+                onChange={(e) => setMaxPerTeamInput(e.target.value)}
+                placeholder="제한 없음"
+                className="w-24 rounded-xl border px-2 py-1"
+              />
+              명
+            </label>
+            {(evenSizes || sizeOpts.maxPerTeam !== null) && (
+              <span className="text-xs text-gray-500">
+                팀 크기를 맞추면서 그룹별로는 최대한 고르게 나눕니다.
+              </span>
+            )}
+          </div>
+          {conflicts.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-amber-700">
+              {conflicts.map((c) => (
+                <li key={c}>{c}</li>
+              ))}
+            </ul>
+          )}
         </section>
 
+        {initial && (groupsDiffer || sharedGroups === null) && (
+          <div className="mb-4 flex flex-wrap items-center gap-3 rounded-2xl bg-amber-50 p-3 text-xs text-amber-800 ring-1 ring-amber-200">
+            {sharedGroups === null
+              ? "예전 공유 링크라 그룹 정보가 없어요. 지금 그룹으로 추첨하면 공유된 결과와 다를 수 있어요."
+              : "지금 그룹이 공유된 추첨의 그룹과 달라서 같은 시드로도 다른 결과가 나와요."}
+            {groupsDiffer && (
+              <button
+                onClick={() => setGroups(sharedGroups)}
+                className="rounded-xl border border-amber-300 bg-white px-3 py-1 font-medium hover:bg-amber-100"
+              >
+                공유된 그룹으로 바꾸기
+              </button>
+            )}
+          </div>
+        )}
+
         {/* 그룹 편집 */}
-        <section className="mb-8 grid gap-4 md:grid-cols-3">
-          {Object.entries(groups).map(([key, list]) => (
-            <div
-              key={key}
-              className="rounded-2xl bg-white p-4 shadow ring-1 ring-purple-100"
-            >
-              <div className="mb-2 flex items-center justify-between">
-                <h3 className="font-semibold">{key}</h3>
-                <span className="text-xs text-gray-400">{list.length}명</span>
-              </div>
-              <textarea
-                className="h-36 w-full resize-none rounded-xl border px-3 py-2 text-sm shadow-sm"
-                value={list.join("\n")}
-                onChange={(e) => updateGroupText(key, e.target.value)}
-                placeholder={`한 줄에 한 명씩 입력`}
-              />
-            </div>
-          ))}
-        </section>
+        <GroupEditor
+          groups={groups}
+          onChange={setGroups}
+          presets={presets}
+          onPresetsChange={setPresets}
+        />
 
         {/* 결과 렌더 */}
-        {results.length > 0 && (
-          <section className="space-y-8">
-            {results.map((round, rIdx) => (
-              <div
-                key={rIdx}
-                className="rounded-3xl bg-white/90 p-5 shadow ring-1 ring-purple-100"
+        {results.length > 0 && lastRun && (
+          <>
+            <div className="mb-4 flex items-center justify-end gap-3 text-xs text-gray-500">
+              <span>
+                시드 <b className="font-mono text-purple-700">{lastRun.seed}</b>
+              </span>
+              {seedInput.trim() !== lastRun.seed && (
+                <button
+                  className="rounded-lg border px-3 py-1"
+                  onClick={() => setSeedInput(lastRun.seed)}
+                >
+                  이 시드 고정
+                </button>
+              )}
+              <Link
+                to={`/score?result=${encodeResult(sharedResult(lastRun))}`}
+                className="rounded-lg border px-3 py-1"
               >
-                <div className="mb-4 flex items-center justify-between">
-                  <h2 className="text-lg font-bold">Round {rIdx + 1}</h2>
-                  <span className="text-xs text-gray-500">
-                    중복 페어: {round.pairRepeats}쌍
-                  </span>
-                </div>
-                <div className="grid gap-4 md:grid-cols-3">
-                  {round.teams.map((team, tIdx) => (
-                    <div
-                      key={tIdx}
-                      className="rounded-2xl border border-purple-100 bg-white p-4 shadow-sm"
-                    >
-                      <div className="mb-2 flex items-center justify-between">
-                        <div className="text-sm font-semibold text-purple-700">
-                          {tIdx + 1}팀
-                        </div>
-                        <div className="text-xs text-gray-400">
-                          {team.length}명
-                        </div>
-                      </div>
-                      <ul className="space-y-1 text-sm">
-                        {team.map((name, i) => (
-                          <li
-                            key={name + i}
-                            className="rounded-lg bg-purple-50/40 px-2 py-1"
-                          >
-                            {name}
-                          </li>
-                        ))}
-                        {team.length === 0 && (
-                          <li className="text-xs text-gray-400">— 빈 팀 —</li>
-                        )}
-                      </ul>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            ))}
-          </section>
+                점수 기록
+              </Link>
+              <ShareButton
+                makeUrl={() => shareUrl("/random", sharedResult(lastRun))}
+              />
+            </div>
+            {lastRun.unevenGroups.length > 0 && (
+              <p className="mb-4 text-xs text-amber-700">
+                팀 정원 때문에 {lastRun.unevenGroups.join(", ")}을(를) 팀별로
+                고르게 나누지 못한 라운드가 있어요.
+              </p>
+            )}
+            <RoundsView results={results} />
+            <PairMatrix
+              rounds={results.map((r) => r.teams)}
+              names={[
+                ...new Set(
+                  groups.flatMap((g) =>
+                    [...g.members].sort((a, b) => a.localeCompare(b, "ko"))
+                  )
+                ),
+              ]}
+            />
+          </>
         )}
 
         {/* 안내 */}
         <p className="mt-8 text-xs text-gray-500">
           규칙: 그룹별 무작위 셔플 → 라운드마다 시작 팀 오프셋을 회전하며
           라운드로빈 분배. 인원수가 팀 수보다 적은 그룹은 일부 팀에만 배정될 수
-          있습니다.
+          있습니다. 팀 인원 균등/최대 인원을 켜면 남은 자리가 있는 팀 중 그 그룹
+          인원이 가장 적은 팀부터 채웁니다.
         </p>
       </div>
     </div>
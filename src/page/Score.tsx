@@ -0,0 +1,515 @@
+import { Fragment, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import {
+  formatGameLine,
+  framesToPretty,
+  parseFrameSymbol,
+  parseMarkedFrame,
+  scoreGame,
+  type Frame,
+  type GameLine,
+} from "../core/bowling";
+import { playerHandicap } from "../core/handicap";
+import { forgetGame, recordGame } from "../core/history";
+import { frameLeave, isSplit, leaveStats, type FramePins } from "../core/pins";
+import { evaluateGame } from "../core/scoring";
+import { decodeResult, type SharedResult } from "../core/share";
+import { useHistory } from "../store/history";
+import { sheetKey, useScoreSession } from "../store/score";
+import FramePicker from "../components/FramePicker";
+import GameLineInput from "../components/GameLineInput";
+
+/**
+ * ScorePage – 팀 배치 결과(일반/랜덤)로 레인별 점수판
+ * - /score?result=공유코드 로 들어오면 그 배치로 새 점수판, 코드 없이 오면 마지막 점수판 이어서
+ * - 프레임은 FramePicker로 입력, 누적 점수는 scoreGame
+ * - 팀 합계(핸디 포함)와 순위는 입력할 때마다 갱신, 기록은 localStorage에 보관
+ * - 10프까지 끝난 게임은 게임 기록(store/history)에도 남김
+ * - 핀 기록(선택): 투구마다 남은 핀 → 스플릿 표시, 첫 구 뒤 남은 핀별 스페어 처리율
+ * - 한 줄 입력: 선수 기록을 "X 9/ 81 …" 한 줄로 내보내거나 붙여넣어 한 번에 입력
+ */
+
+type LanePlayer = { name: string; handicap: number };
+type Lane = { label: string; players: LanePlayer[] };
+type GameSetup = { label: string; lanes: Lane[] };
+
+function gamesFromResult(r: SharedResult): GameSetup[] {
+  if (r.kind === "main") {
+    const { games, settings } = r;
+    const handicap = settings.handicap && {
+      enabled: true,
+      ...settings.handicap,
+    };
+    return games.map((teams, g) => ({
+      label: `${g + 1}게임`,
+      lanes: teams.map((players, t) => ({
+        // SharedMainView와 같은 레인 표기
+        label:
+          games.length > 1
+            ? `레인 ${settings.startLane + ((t + g) % teams.length)}`
+            : `팀 ${t + 1}`,
+        players: players.map((p) => ({
+          name: p.name,
+          handicap: handicap ? playerHandicap(p, handicap) : 0,
+        })),
+      })),
+    }));
+  }
+  return r.rounds.map((teams, i) => ({
+    label: `Round ${i + 1}`,
+    lanes: teams.map((names, t) => ({
+      label: `${t + 1}팀`,
+      players: names.map((name) => ({ name, handicap: 0 })),
+    })),
+  }));
+}
+
+// 1프부터 연속으로 입력된 프레임만 (중간이 비면 거기서 멈춤)
+function enteredFrames(symbols: string[]): Frame[] {
+  const frames: Frame[] = [];
+  for (let i = 0; i < 10; i++) {
+    const f = parseFrameSymbol(symbols[i] ?? "");
+    if (!f) break;
+    frames.push(f);
+  }
+  return frames;
+}
+
+type PlayerScore = LanePlayer & {
+  sheet: string; // sheetKey – 같은 이름이 있어도 자리로 구분
+  symbols: string[];
+  splits: boolean[]; // 프레임별 스플릿 여부 (핀 기록이나 S 표시)
+  line: string; // 입력된 프레임 한 줄 (formatGameLine)
+  running: number[]; // 프레임별 누적 (입력된 프레임까지)
+  total: number;
+};
+
+type LaneScore = Omit<Lane, "players"> & {
+  players: PlayerScore[];
+  scratch: number;
+  handicap: number;
+  total: number;
+  rank: number;
+};
+
+export default function ScorePage() {
+  const [params] = useSearchParams();
+  const [session, setSession] = useScoreSession(params.get("result"));
+  const [history, setHistory] = useHistory();
+  const [gameIdx, setGameIdx] = useState(0);
+  const [picker, setPicker] = useState<{
+    sheet: string;
+    name: string;
+    index: number;
+  } | null>(null);
+  const [lineFor, setLineFor] = useState<string | null>(null); // 한 줄 입력 중인 점수판
+
+  const result = useMemo(
+    () => (session.code ? decodeResult(session.code) : null),
+    [session.code]
+  );
+  const games = useMemo(
+    () => (result ? gamesFromResult(result) : []),
+    [result]
+  );
+  const game = games[Math.min(gameIdx, games.length - 1)];
+  const g = games.indexOf(game);
+
+  const symbolsOf = (sheet: string) =>
+    session.sheets[sheet] ?? Array<string>(10).fill("");
+  const pinsOf = (sheet: string) =>
+    session.pins[sheet] ?? Array<FramePins | null>(10).fill(null);
+
+  const lanes: LaneScore[] = useMemo(() => {
+    if (!game) return [];
+    const scored = game.lanes.map((lane, l) => {
+      const players = lane.players.map((p, slot) => {
+        const sheet = sheetKey(g, l, slot);
+        const symbols = session.sheets[sheet] ?? Array<string>(10).fill("");
+        const frames = enteredFrames(symbols);
+        const running = frames.map((_, i) => scoreGame(frames.slice(0, i + 1)));
+        const pins = session.pins[sheet] ?? [];
+        const marked = symbols.map((sym) => parseMarkedFrame(sym));
+        const splits = marked.map((m, i) => {
+          const leave = m && frameLeave(m.frame, pins[i]);
+          return (
+            (leave !== null && leave !== undefined && isSplit(leave)) ||
+            !!m?.marks.includes("split")
+          );
+        });
+        return {
+          ...p,
+          sheet,
+          symbols,
+          splits,
+          line: formatGameLine(
+            frames,
+            marked.map((m) => m?.marks ?? [])
+          ),
+          running,
+          total: running[running.length - 1] ?? 0,
+        };
+      });
+      const scratch = players.reduce((s, p) => s + p.total, 0);
+      const handicap = players.reduce((s, p) => s + p.handicap, 0);
+      return { ...lane, players, scratch, handicap, total: scratch + handicap };
+    });
+    // 동점은 같은 순위
+    return scored.map((l) => ({
+      ...l,
+      rank: 1 + scored.filter((o) => o.total > l.total).length,
+    }));
+  }, [game, g, session.sheets, session.pins]);
+
+  const leaves = useMemo(() => leaveStats(history).slice(0, 8), [history]);
+
+  const ranking = [...lanes].sort((a, b) => a.rank - b.rank);
+  const hasHandicap = lanes.some((l) => l.handicap > 0);
+
+  const setSymbols = (
+    sheet: string,
+    name: string,
+    symbols: string[],
+    pins: (FramePins | null)[]
+  ) => {
+    setSession((s) => ({
+      ...s,
+      sheets: { ...s.sheets, [sheet]: symbols },
+      pins: { ...s.pins, [sheet]: pins },
+    }));
+    const frames = enteredFrames(symbols);
+    const id = `${session.code}/${sheet}`;
+    const finished = frames.length === 10 && evaluateGame(frames).complete;
+    setHistory((h) =>
+      finished
+        ? recordGame(h, {
+            id,
+            player: name,
+            frames,
+            pins: pins.some((p) => p) ? pins : undefined,
+            score: scoreGame(frames),
+          })
+        : forgetGame(h, id)
+    );
+  };
+
+  const setFrame = (
+    sheet: string,
+    name: string,
+    index: number,
+    symbol: string,
+    framePins: FramePins | null
+  ) => {
+    const next = [...symbolsOf(sheet)];
+    const nextPins = [...pinsOf(sheet)];
+    next[index] = symbol;
+    nextPins[index] = framePins;
+    setSymbols(sheet, name, next, nextPins);
+  };
+
+  // 한 줄로 불러오기 – 기호가 그대로인 프레임만 핀 기록 유지
+  const importLine = (sheet: string, name: string, line: GameLine) => {
+    const prev = symbolsOf(sheet);
+    const prevPins = pinsOf(sheet);
+    const next = Array.from({ length: 10 }, (_, i) =>
+      line.frames[i] ? framesToPretty(line.frames[i], line.marks[i]) : ""
+    );
+    setSymbols(
+      sheet,
+      name,
+      next,
+      next.map((sym, i) => (sym && sym === prev[i] ? prevPins[i] : null))
+    );
+    setLineFor(null);
+  };
+
+  // 마지막으로 입력한 프레임 지우기
+  const undoFrame = (sheet: string, name: string) => {
+    const next = [...symbolsOf(sheet)];
+    const last = next.map((v) => !!v).lastIndexOf(true);
+    if (last < 0) return;
+    const nextPins = [...pinsOf(sheet)];
+    next[last] = "";
+    nextPins[last] = null;
+    setSymbols(sheet, name, next, nextPins);
+  };
+
+  if (!result || !game)
+    return (
+      <div className="min-h-screen w-full bg-gradient-to-br from-white to-purple-50 px-6 py-8">
+        <div className="mx-auto max-w-3xl rounded-2xl bg-white p-6 text-sm shadow ring-1 ring-purple-100">
+          <p className="mb-3">
+            점수판을 만들 팀 배치가 없어요. 일반/랜덤 모드에서 팀을 만든 뒤
+            "점수 기록" 버튼을 눌러 주세요.
+          </p>
+          <div className="flex gap-3">
+            <Link to="/main" className="text-purple-600 underline">
+              일반 모드
+            </Link>
+            <Link to="/random" className="text-purple-600 underline">
+              랜덤 모드
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-br from-white to-purple-50 px-6 py-8">
+      <div className="mx-auto max-w-6xl">
+        <header className="mb-6 flex items-center justify-between">
+          <Link to="/" className="block">
+            <img
+              src="/images/logo.png"
+              alt="Podo Bowling Club"
+              className="h-9 w-9 rounded-xl shadow"
+            />
+          </Link>
+          <h1 className="text-xl font-extrabold text-purple-700">점수 기록</h1>
+          <Link
+            to={result.kind === "main" ? "/main" : "/random"}
+            className="text-xs text-purple-600 underline"
+          >
+            {result.kind === "main" ? "일반 모드" : "랜덤 모드"}로
+          </Link>
+        </header>
+
+        {games.length > 1 && (
+          <div className="mb-4 flex flex-wrap gap-2">
+            {games.map((gm, i) => (
+              <button
+                key={gm.label}
+                onClick={() => setGameIdx(i)}
+                className={`rounded-xl px-4 py-1 text-sm ${
+                  i === g
+                    ? "bg-fuchsia-600 text-white shadow"
+                    : "border border-purple-200 bg-white text-purple-700"
+                }`}
+              >
+                {gm.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* 순위 */}
+        <section className="mb-6 rounded-3xl bg-white/90 p-5 shadow ring-1 ring-purple-100">
+          <h2 className="mb-3 text-lg font-bold">{game.label} 순위</h2>
+          <ol className="grid gap-2 text-sm md:grid-cols-3">
+            {ranking.map((l) => (
+              <li
+                key={l.label}
+                className={`flex items-center justify-between rounded-xl px-3 py-2 ${
+                  l.rank === 1
+                    ? "bg-fuchsia-50 ring-1 ring-fuchsia-200"
+                    : "bg-purple-50/40"
+                }`}
+              >
+                <span>
+                  <b className="mr-2 text-purple-700">{l.rank}위</b>
+                  {l.label}
+                </span>
+                <span className="tabular-nums">
+                  <b>{l.total}</b>
+                  {hasHandicap && (
+                    <span className="ml-1 text-xs text-gray-500">
+                      ({l.scratch} + 핸디 {l.handicap})
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </section>
+
+        {/* 레인별 점수판 */}
+        <section className="space-y-6">
+          {lanes.map((lane) => (
+            <div
+              key={lane.label}
+              className="rounded-3xl bg-white/90 p-5 shadow ring-1 ring-purple-100"
+            >
+              <div className="mb-3 flex items-center justify-between">
+                <h3 className="font-semibold">
+                  {lane.label}
+                  <span className="ml-2 text-xs text-purple-600">
+                    {lane.rank}위
+                  </span>
+                </h3>
+                <span className="text-sm tabular-nums">
+                  합계 <b>{lane.total}</b>
+                </span>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500">
+                      <th className="px-2 py-1 text-left font-medium">이름</th>
+                      {Array.from({ length: 10 }, (_, i) => (
+                        <th key={i} className="w-12 px-1 font-medium">
+                          {i + 1}
+                        </th>
+                      ))}
+                      <th className="px-2 font-medium">합계</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lane.players.map((p) => (
+                      <Fragment key={p.sheet}>
+                        <tr className="border-t border-purple-50">
+                          <td className="whitespace-nowrap px-2 py-1">
+                            {p.name}
+                            {p.handicap > 0 && (
+                              <span className="ml-1 text-xs text-gray-400">
+                                +{p.handicap}
+                              </span>
+                            )}
+                          </td>
+                          {p.symbols.map((sym, i) => {
+                            const editable = i <= p.running.length;
+                            return (
+                              <td key={i} className="px-0.5 py-1">
+                                <button
+                                  disabled={!editable}
+                                  onClick={() =>
+                                    setPicker({
+                                      sheet: p.sheet,
+                                      name: p.name,
+                                      index: i,
+                                    })
+                                  }
+                                  className={`flex h-12 w-12 flex-col items-center justify-center rounded-lg border text-xs ${
+                                    editable
+                                      ? "hover:bg-purple-50"
+                                      : "bg-gray-50 text-gray-300"
+                                  } ${
+                                    i === p.running.length
+                                      ? "border-fuchsia-300"
+                                      : "border-purple-100"
+                                  }`}
+                                >
+                                  <span
+                                    className={`font-semibold ${
+                                      p.splits[i]
+                                        ? "rounded-full px-1 ring-1 ring-red-400"
+                                        : ""
+                                    }`}
+                                    title={p.splits[i] ? "스플릿" : undefined}
+                                  >
+                                    {sym || "·"}
+                                  </span>
+                                  <span className="tabular-nums text-[10px] text-gray-500">
+                                    {p.running[i] ?? ""}
+                                  </span>
+                                </button>
+                              </td>
+                            );
+                          })}
+                          <td className="px-2 text-center tabular-nums">
+                            <b>{p.total + p.handicap}</b>
+                            <button
+                              className="ml-2 text-xs text-gray-400 hover:text-red-500"
+                              onClick={() => undoFrame(p.sheet, p.name)}
+                              title="마지막 프레임 지우기"
+                            >
+                              ↶
+                            </button>
+                            <button
+                              className={`ml-1 text-xs ${
+                                lineFor === p.sheet
+                                  ? "text-fuchsia-600"
+                                  : "text-gray-400 hover:text-purple-600"
+                              }`}
+                              onClick={() =>
+                                setLineFor(lineFor === p.sheet ? null : p.sheet)
+                              }
+                              title="한 줄로 입력/내보내기"
+                            >
+                              ≡
+                            </button>
+                          </td>
+                        </tr>
+                        {lineFor === p.sheet && (
+                          <tr>
+                            <td colSpan={12} className="px-2 pb-3">
+                              <GameLineInput
+                                value={p.line}
+                                onImport={(line) =>
+                                  importLine(p.sheet, p.name, line)
+                                }
+                              />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))}
+        </section>
+
+        {leaves.length > 0 && (
+          <section className="mt-6 rounded-3xl bg-white/90 p-5 shadow ring-1 ring-purple-100">
+            <h2 className="mb-3 text-lg font-bold">자주 남는 핀</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500">
+                  <th className="px-2 py-1 text-left font-medium">남은 핀</th>
+                  <th className="px-2 font-medium">횟수</th>
+                  <th className="px-2 font-medium">스페어 처리</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leaves.map((l) => (
+                  <tr key={l.leave} className="border-t border-purple-50">
+                    <td className="px-2 py-1">
+                      <b>{l.name}</b>
+                      {l.split && (
+                        <span className="ml-2 rounded-full bg-red-50 px-2 text-xs text-red-500">
+                          스플릿
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-2 text-center tabular-nums">{l.count}</td>
+                    <td className="px-2 text-center tabular-nums">
+                      {Math.round((l.converted / l.count) * 100)}% (
+                      {l.converted}/{l.count})
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+
+        <p className="mt-6 text-xs text-gray-500">
+          프레임 칸을 눌러 기록 (예: X, 9/, 81, 10프 XXX). 누적 점수는 1프부터
+          이어서 입력된 프레임까지 계산하며, 아직 굴리지 않은 보너스 구는 0으로
+          셉니다. ≡ 버튼으로 한 게임을 "X 9/ 81 X X 7- 9/ X 8/ X9/"처럼 한 줄로
+          내보내거나 붙여넣을 수 있어요 (F 파울, S 스플릿). 투구마다 남은 핀을
+          배치도에 찍어 두면(스트라이크/스페어/거터는 자동) 스플릿(빨간 원)과 첫
+          구 뒤 남은 핀별 스페어 처리율을 보여줘요. 기록은 이 기기에 저장되고,
+          10프까지 끝난 게임은 목표 점수 역산의 현실성 모델과{" "}
+          <Link to="/stats" className="text-purple-600 underline">
+            선수 통계
+          </Link>
+          에 쓰여요.
+        </p>
+      </div>
+
+      <FramePicker
+        open={picker !== null}
+        index={picker?.index ?? null}
+        currentValue={picker ? symbolsOf(picker.sheet)[picker.index] : ""}
+        withPins
+        currentPins={picker ? pinsOf(picker.sheet)[picker.index] : null}
+        onSelect={(sym, pins) =>
+          picker && setFrame(picker.sheet, picker.name, picker.index, sym, pins)
+        }
+        onClose={() => setPicker(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  allPlayerStats,
+  dailyAverages,
+  playerGames,
+  scoreTrend,
+  type PlayerStats,
+} from "../core/stats";
+import { useHistory } from "../store/history";
+import TrendChart from "../components/TrendChart";
+
+/**
+ * StatsPage – 선수 통계 (점수판에서 10프까지 끝낸 게임 기록으로)
+ * - 전체 선수 표: 게임 수, 에버, 최고, 표준편차, 스트라이크/스페어/오픈 비율, 10프 마크율, 추세
+ * - 선수를 고르면 자세히: 요약 카드, 점수 추세 차트(이동 평균), 날짜별 에버
+ * - 계산은 core/stats (프레임 분류는 core/realism)
+ */
+
+const ROLLING_WINDOWS = [3, 5, 10];
+
+const pct = (p: number) => `${Math.round(p * 100)}%`;
+const avg1 = (n: number) => n.toFixed(1);
+const signed = (n: number) => `${n >= 0 ? "+" : ""}${n.toFixed(1)}`;
+
+function StatCard({
+  label,
+  value,
+  sub,
+}: {
+  label: string;
+  value: string;
+  sub?: string;
+}) {
+  return (
+    <div className="rounded-2xl bg-purple-50/50 p-3 ring-1 ring-purple-100">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-lg font-bold tabular-nums text-purple-700">
+        {value}
+      </div>
+      {sub && <div className="text-[11px] text-gray-500">{sub}</div>}
+    </div>
+  );
+}
+
+export default function StatsPage() {
+  const [history] = useHistory();
+  const [selected, setSelected] = useState<string | null>(null);
+  const [rollingWindow, setRollingWindow] = useState(5);
+
+  const stats = useMemo(() => allPlayerStats(history), [history]);
+  const current: PlayerStats | undefined =
+    stats.find((s) => s.player === selected) ?? stats[0];
+  const games = useMemo(
+    () => (current ? playerGames(history, current.player) : []),
+    [history, current]
+  );
+  const trend = useMemo(
+    () => scoreTrend(games, rollingWindow),
+    [games, rollingWindow]
+  );
+  const daily = useMemo(() => dailyAverages(games), [games]);
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-br from-white to-purple-50 px-6 py-8">
+      <div className="mx-auto max-w-6xl">
+        <header className="mb-6 flex items-center justify-between">
+          <Link to="/" className="block">
+            <img
+              src="/images/logo.png"
+              alt="Podo Bowling Club"
+              className="h-9 w-9 rounded-xl shadow"
+            />
+          </Link>
+          <h1 className="text-xl font-extrabold text-purple-700">선수 통계</h1>
+          <Link to="/score" className="text-xs text-purple-600 underline">
+            점수 기록으로
+          </Link>
+        </header>
+
+        {!current ? (
+          <div className="mx-auto max-w-3xl rounded-2xl bg-white p-6 text-sm shadow ring-1 ring-purple-100">
+            아직 기록된 게임이 없어요. 점수 기록에서 10프까지 입력한 게임이
+            여기에 모여요.{" "}
+            <Link to="/score" className="text-purple-600 underline">
+              점수 기록
+            </Link>
+          </div>
+        ) : (
+          <>
+            {/* 전체 선수 */}
+            <section className="mb-6 rounded-3xl bg-white/90 p-5 shadow ring-1 ring-purple-100">
+              <h2 className="mb-3 text-lg font-bold">전체 선수</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500">
+                      <th className="px-2 py-1 text-left font-medium">이름</th>
+                      <th className="px-2 font-medium">게임</th>
+                      <th className="px-2 font-medium">에버</th>
+                      <th className="px-2 font-medium">최고</th>
+                      <th className="px-2 font-medium">표준편차</th>
+                      <th className="px-2 font-medium">스트라이크</th>
+                      <th className="px-2 font-medium">스페어</th>
+                      <th className="px-2 font-medium">오픈</th>
+                      <th className="px-2 font-medium">10프 마크</th>
+                      <th className="px-2 font-medium">추세</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.map((s) => (
+                      <tr
+                        key={s.player}
+                        onClick={() => setSelected(s.player)}
+                        className={`cursor-pointer border-t border-purple-50 text-center tabular-nums hover:bg-purple-50/60 ${
+                          s.player === current.player ? "bg-fuchsia-50" : ""
+                        }`}
+                      >
+                        <td className="whitespace-nowrap px-2 py-1 text-left font-semibold">
+                          {s.player}
+                        </td>
+                        <td className="px-2">{s.games}</td>
+                        <td className="px-2">
+                          <b>{avg1(s.average)}</b>
+                        </td>
+                        <td className="px-2">{s.high}</td>
+                        <td className="px-2">{avg1(s.stdDev)}</td>
+                        <td className="px-2">{pct(s.strikeRate)}</td>
+                        <td className="px-2">{pct(s.spareRate)}</td>
+                        <td className="px-2">{pct(s.openRate)}</td>
+                        <td className="px-2">{pct(s.tenthMarkRate)}</td>
+                        <td
+                          className={`px-2 ${
+                            s.trend > 0
+                              ? "text-emerald-600"
+                              : s.trend < 0
+                              ? "text-red-500"
+                              : "text-gray-400"
+                          }`}
+                        >
+                          {s.games < 2 ? "-" : signed(s.trend)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="mt-2 text-xs text-gray-500">
+                비율은 전체 프레임 대비 (10프는 첫 랙 기준), 추세는 게임당 점수
+                변화예요. 이름을 누르면 자세히 볼 수 있어요.
+              </p>
+            </section>
+
+            {/* 선수 자세히 */}
+            <section className="rounded-3xl bg-white/90 p-5 shadow ring-1 ring-purple-100">
+              <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-lg font-bold">{current.player}</h2>
+                <span className="text-xs text-gray-500">
+                  {current.firstDate} ~ {current.lastDate} · {current.games}
+                  게임
+                </span>
+              </div>
+
+              <div className="mb-5 grid grid-cols-2 gap-3 md:grid-cols-4">
+                <StatCard
+                  label="에버"
+                  value={avg1(current.average)}
+                  sub={`최고 ${current.high} · 최저 ${current.low}`}
+                />
+                <StatCard
+                  label="꾸준함 (표준편차)"
+                  value={avg1(current.stdDev)}
+                  sub={
+                    current.games < 2
+                      ? "게임이 더 필요해요"
+                      : `추세 ${signed(current.trend)}점/게임`
+                  }
+                />
+                <StatCard
+                  label="스트라이크"
+                  value={pct(current.strikeRate)}
+                  sub={`오픈 ${pct(current.openRate)}`}
+                />
+                <StatCard
+                  label="스페어"
+                  value={pct(current.spareRate)}
+                  sub={`처리율 ${pct(current.spareConversion)}`}
+                />
+                <StatCard
+                  label="10프 마크"
+                  value={pct(current.tenthMarkRate)}
+                  sub={`10프 평균 ${avg1(current.tenthAverage)}핀`}
+                />
+              </div>
+
+              <div className="mb-2 flex items-center justify-between">
+                <h3 className="font-semibold">점수 추세</h3>
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  이동 평균
+                  <select
+                    value={rollingWindow}
+                    onChange={(e) => setRollingWindow(Number(e.target.value))}
+                    className="rounded-lg border px-2 py-1"
+                  >
+                    {ROLLING_WINDOWS.map((w) => (
+                      <option key={w} value={w}>
+                        최근 {w}게임
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <TrendChart points={trend} />
+
+              <h3 className="mb-2 mt-5 font-semibold">날짜별 에버</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500">
+                    <th className="px-2 py-1 text-left font-medium">날짜</th>
+                    <th className="px-2 font-medium">게임</th>
+                    <th className="px-2 font-medium">에버</th>
+                    <th className="px-2 font-medium">최고</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...daily].reverse().map((d) => (
+                    <tr
+                      key={d.date}
+                      className="border-t border-purple-50 text-center tabular-nums"
+                    >
+                      <td className="px-2 py-1 text-left">{d.date}</td>
+                      <td className="px-2">{d.games}</td>
+                      <td className="px-2">
+                        <b>{avg1(d.average)}</b>
+                      </td>
+                      <td className="px-2">{d.high}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
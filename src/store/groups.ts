@@ -0,0 +1,33 @@
+import { isGroupList, type Group, type GroupPreset } from "../core/groups";
+import { loadJSON, useStoredState } from "./local";
+
+/**
+ * 랜덤 모드 그룹 저장 (localStorage)
+ * - 현재 편집 중인 그룹 목록: 새로고침해도 유지
+ * - 이름 붙인 프리셋: 모임별로 따로 저장해 서로 덮어쓰지 않게
+ */
+
+const GROUPS_KEY = "podo.groups.v1";
+const PRESETS_KEY = "podo.groupPresets.v1";
+
+export function loadGroups(fallback: Group[]): Group[] {
+  const parsed = loadJSON<unknown>(GROUPS_KEY, null);
+  return isGroupList(parsed) ? parsed : fallback;
+}
+
+export function loadGroupPresets(): GroupPreset[] {
+  const parsed = loadJSON<unknown>(PRESETS_KEY, []);
+  if (!Array.isArray(parsed)) return [];
+  return parsed.filter(
+    (p): p is GroupPreset =>
+      p && typeof p.name === "string" && isGroupList(p.groups)
+  );
+}
+
+export function useGroups(fallback: Group[]) {
+  return useStoredState(GROUPS_KEY, () => loadGroups(fallback));
+}
+
+export function useGroupPresets() {
+  return useStoredState(PRESETS_KEY, loadGroupPresets);
+}
@@ -0,0 +1,18 @@
+import { isPlayedGame, type PlayedGame } from "../core/history";
+import { loadJSON, useStoredState } from "./local";
+
+/**
+ * 끝난 게임 기록 저장 (localStorage)
+ * - 점수판이 새 결과로 바뀌어도 남음 (현실성 모델/통계에서 씀)
+ */
+
+const STORAGE_KEY = "podo.history.v1";
+
+export function loadHistory(): PlayedGame[] {
+  const parsed = loadJSON<unknown>(STORAGE_KEY, []);
+  return Array.isArray(parsed) ? parsed.filter(isPlayedGame) : [];
+}
+
+export function useHistory() {
+  return useStoredState(STORAGE_KEY, loadHistory);
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+
+/**
+ * localStorage JSON 헬퍼
+ * - 읽기 실패(없음/파싱 오류) 시 fallback
+ * - 쓰기 실패(저장 공간 부족/프라이빗 모드 등)는 무시 (메모리 상태는 유지)
+ */
+
+export function loadJSON<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveJSON(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // ignore
+  }
+}
+
+export function useStoredState<T>(key: string, load: () => T) {
+  const [value, setValue] = useState<T>(load);
+  useEffect(() => saveJSON(key, value), [key, value]);
+  return [value, setValue] as const;
+}
@@ -0,0 +1,26 @@
+import { defaultRoster, type Roster } from "../core/roster";
+import { loadJSON, saveJSON, useStoredState } from "./local";
+
+/**
+ * 로스터 영구 저장 (localStorage)
+ * - 키에 버전을 붙여 두고, 읽기 실패 시 빈 로스터로 시작
+ */
+
+const STORAGE_KEY = "podo.roster.v1";
+
+export function loadRoster(): Roster {
+  const base = defaultRoster();
+  const parsed = loadJSON<Partial<Roster>>(STORAGE_KEY, {});
+  return {
+    players: Array.isArray(parsed.players) ? parsed.players : [],
+    settings: { ...base.settings, ...parsed.settings },
+  };
+}
+
+export function saveRoster(r: Roster) {
+  saveJSON(STORAGE_KEY, r);
+}
+
+export function useRoster() {
+  return useStoredState(STORAGE_KEY, loadRoster);
+}
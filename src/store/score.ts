@@ -0,0 +1,41 @@
+import type { FramePins } from "../core/pins";
+import { loadJSON, useStoredState } from "./local";
+
+/**
+ * 점수판 기록 저장 (localStorage)
+ * - 마지막으로 연 결과(공유 코드) 하나의 기록만 보관
+ * - 다른 결과를 열면 새 점수판으로 시작
+ * - 점수판은 게임/레인/자리 번호로 구분 (같은 이름의 선수가 있어도 따로 기록)
+ */
+
+const STORAGE_KEY = "podo.score.v2"; // v1은 이름으로 구분해 같은 이름끼리 덮어씀
+
+export type ScoreSheets = Record<string, string[]>; // "게임/레인/자리" → 1~10프 기호
+export type ScorePins = Record<string, (FramePins | null)[]>; // "게임/레인/자리" → 프레임별 핀 기록
+
+export type ScoreSession = {
+  code: string; // 공유 코드 (core/share)
+  sheets: ScoreSheets;
+  pins: ScorePins;
+};
+
+export function sheetKey(game: number, lane: number, slot: number) {
+  return `${game}/${lane}/${slot}`;
+}
+
+export function loadScoreSession(code: string | null): ScoreSession {
+  const stored = loadJSON<Partial<ScoreSession>>(STORAGE_KEY, {});
+  const storedCode = typeof stored.code === "string" ? stored.code : "";
+  const sheets =
+    stored.sheets && typeof stored.sheets === "object" ? stored.sheets : {};
+  const pins =
+    stored.pins && typeof stored.pins === "object" ? stored.pins : {};
+  if (code === null || code === storedCode)
+    return { code: storedCode, sheets, pins };
+  return { code, sheets: {}, pins: {} };
+}
+
+// code가 null이면 마지막 점수판 이어서
+export function useScoreSession(code: string | null) {
+  return useStoredState(STORAGE_KEY, () => loadScoreSession(code));
+}
@@ -0,0 +1,15 @@
+import { DEFAULT_SHEET_SETTINGS, type SheetSettings } from "../core/sheet";
+import { loadJSON, useStoredState } from "./local";
+
+const STORAGE_KEY = "podo.sheet.v1";
+
+export function loadSheetSettings(): SheetSettings {
+  return {
+    ...DEFAULT_SHEET_SETTINGS,
+    ...loadJSON<Partial<SheetSettings>>(STORAGE_KEY, {}),
+  };
+}
+
+export function useSheetSettings() {
+  return useStoredState(STORAGE_KEY, loadSheetSettings);
+}
@@ -0,0 +1,166 @@
+import type { Frame } from "../core/bowling";
+import { candidatePools } from "../core/candidates";
+import { frameProbability, type FrameModel } from "../core/frameModel";
+import { frameRealism } from "../core/realism";
+import {
+  assistTarget,
+  buildSolveTable,
+  countSolutions,
+  enumerateSolutions,
+  rankedSolutions,
+  solutionMass,
+  type Assist,
+  type RankedSolution,
+} from "../core/solver";
+
+/**
+ * 목표 점수 역산 워커 – 화면이 멈추지 않게 솔버를 메인 스레드 밖에서
+ * - solve: 조합 수를 먼저 보내고, 솔루션은 순위대로 upto개까지 조금씩 나눠 보냄
+ * - more: 같은 탐색을 이어서 upto개까지 (다음 페이지)
+ * - cancel: 하던 탐색 중단 (조각 사이사이 메시지를 받으므로 바로 멈춤)
+ * - assist: 실시간 도우미 (조합 수 + 가장 쉬운 길) – 하던 탐색과 별개로 바로 답함
+ */
+
+export type SolveRanking =
+  | { kind: "none" } // 후보 순서 그대로
+  | { kind: "weights" } // 손으로 정한 가중치 (core/realism)
+  | { kind: "model"; model: FrameModel }; // 기록으로 배운 확률 모델
+
+export type SolveRequest =
+  | {
+      type: "solve";
+      id: number;
+      fixed: (Frame | null)[];
+      target: number;
+      forbidFirstZero: boolean;
+      ranking: SolveRanking;
+      upto: number;
+    }
+  | { type: "more"; id: number; upto: number }
+  | { type: "cancel"; id: number }
+  | {
+      type: "assist";
+      id: number;
+      fixed: (Frame | null)[];
+      target: number;
+      forbidFirstZero: boolean;
+    };
+
+export type SolveResponse =
+  | { type: "count"; id: number; count: bigint; mass: number | null }
+  | {
+      type: "solutions";
+      id: number;
+      solutions: RankedSolution[]; // 이번에 새로 찾은 것만
+      found: number;
+      exhausted: boolean; // 더 꺼낼 솔루션 없음
+      idle: boolean; // upto까지 다 찾음 (또는 끝)
+    }
+  | { type: "assist"; id: number; assist: Assist };
+
+// 한 번에 붙잡고 있는 최대 시간 – 그 사이 cancel/more 메시지를 받음
+const SLICE_MS = 30;
+
+let job: {
+  id: number;
+  cursor: Generator<RankedSolution>;
+  found: number;
+  upto: number;
+  exhausted: boolean;
+  running: boolean;
+} | null = null;
+
+const post = (msg: SolveResponse) => self.postMessage(msg);
+
+function* unranked(games: Generator<Frame[]>): Generator<RankedSolution> {
+  for (const game of games) yield { game, weight: 0 };
+}
+
+function pump() {
+  if (!job) return;
+  const current = job;
+  const start = performance.now();
+  const batch: RankedSolution[] = [];
+  while (current.found < current.upto && performance.now() - start < SLICE_MS) {
+    const r = current.cursor.next();
+    if (r.done) {
+      current.exhausted = true;
+      break;
+    }
+    batch.push(r.value);
+    current.found++;
+  }
+  const idle = current.exhausted || current.found >= current.upto;
+  post({
+    type: "solutions",
+    id: current.id,
+    solutions: batch,
+    found: current.found,
+    exhausted: current.exhausted,
+    idle,
+  });
+  current.running = !idle;
+  if (!idle) setTimeout(() => job === current && pump(), 0);
+}
+
+self.onmessage = (e: MessageEvent<SolveRequest>) => {
+  const req = e.data;
+  if (req.type === "assist") {
+    post({
+      type: "assist",
+      id: req.id,
+      assist: assistTarget(
+        req.fixed,
+        req.target,
+        candidatePools(req.forbidFirstZero)
+      ),
+    });
+    return;
+  }
+  if (req.type === "cancel") {
+    if (job?.id === req.id) job = null;
+    return;
+  }
+  if (req.type === "more") {
+    if (!job || job.id !== req.id || job.exhausted) return;
+    job.upto = Math.max(job.upto, req.upto);
+    if (!job.running) {
+      job.running = true;
+      pump();
+    }
+    return;
+  }
+
+  const table = buildSolveTable(req.fixed, candidatePools(req.forbidFirstZero));
+  const { ranking } = req;
+  post({
+    type: "count",
+    id: req.id,
+    count: countSolutions(table, req.target),
+    mass:
+      ranking.kind === "model"
+        ? solutionMass(table, req.target, (f, i) =>
+            frameProbability(ranking.model, f, i)
+          )
+        : null,
+  });
+  const cursor =
+    ranking.kind === "none"
+      ? unranked(enumerateSolutions(table, req.target))
+      : rankedSolutions(
+          table,
+          req.target,
+          ranking.kind === "model"
+            ? (f, i) => Math.log(frameProbability(ranking.model, f, i))
+            : frameRealism
+        );
+  job = {
+    id: req.id,
+    cursor,
+    found: 0,
+    upto: req.upto,
+    exhausted: false,
+    running: true,
+  };
+  pump();
+};